@@ -2,9 +2,10 @@ export default {
   testEnvironment: "jsdom",
   transform: {
     "^.+\\.(ts|tsx)$": ["ts-jest", { tsconfig: "tsconfig.json" }],
+    "^.+\\.glsl$": "<rootDir>/jest.glslTransform.cjs",
   },
   moduleNameMapper: {
     ".(css|less|scss)$": "identity-obj-proxy",
-    "^@/(.*)$": "<rootDir>/src/$1"
+    "^@/(.*)$": "<rootDir>/src/$1",
   },
 };
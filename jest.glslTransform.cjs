@@ -0,0 +1,6 @@
+// Load .glsl imports as their source text, like the inline-import babel plugin
+module.exports = {
+  process(sourceText) {
+    return { code: `module.exports = ${JSON.stringify(sourceText)};` };
+  },
+};
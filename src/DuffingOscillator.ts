@@ -1,4 +1,6 @@
-export class DuffingOscillator {
+import { MotionSource, MotionState } from './types';
+
+export class DuffingOscillator implements MotionSource {
     private x: number = 0;
     private y: number = 0;
     private dx: number = 0;
@@ -49,7 +51,7 @@ export class DuffingOscillator {
         this.dy = Math.sin(angle + Math.PI/2) * 0.05;
     }
 
-    public update(dt: number): { x: number, y: number, dx: number, dy: number } {
+    public update(dt: number): MotionState {
         // Implementation of the Duffing equation with symmetric forcing
         const forcingX = this.gamma * Math.cos(this.omega * this.time + this.phaseOffset);
         const forcingY = this.gamma * Math.sin(this.omega * this.time + this.phaseOffset);
@@ -86,6 +88,19 @@ export class DuffingOscillator {
         };
     }
 
+    public retune(next: DuffingOscillator): void {
+        this.delta = next.delta;
+        this.beta = next.beta;
+        this.alpha = next.alpha;
+        this.gamma = next.gamma;
+        this.omega = next.omega;
+        this.phaseOffset = next.phaseOffset;
+        this.baseX = next.baseX;
+        this.baseY = next.baseY;
+        this.index = next.index;
+        this.totalOscillators = next.totalOscillators;
+    }
+
     public reset(): void {
         // Reset to initial symmetric position
         const angle = (2 * Math.PI * this.index) / this.totalOscillators;
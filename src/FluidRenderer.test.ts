@@ -0,0 +1,214 @@
+import { getRandomColor } from "./colorManager";
+import { FluidRenderer } from "./FluidRenderer";
+import type { Config, RendererOptions } from "./types";
+
+type MockWebGL = Record<string, jest.Mock> & {
+  drawingBufferWidth: number;
+  drawingBufferHeight: number;
+};
+
+/**
+ * WebGL2 context that accepts every call. Constants are stable numbers per
+ * name and create* calls return fresh handles, so tests can count them.
+ */
+const createMockWebGL = (): MockWebGL => {
+  const constants = new Map<string, number>();
+  const constant = (name: string) => {
+    if (!constants.has(name)) constants.set(name, 0x1000 + constants.size);
+    return constants.get(name)!;
+  };
+  let nextHandle = 1;
+  const handle = () => ({ handle: nextHandle++ });
+  const extension = {
+    HALF_FLOAT_OES: constant("HALF_FLOAT_OES"),
+    loseContext: jest.fn(),
+  };
+
+  const methods: Record<string, jest.Mock> = {
+    createBuffer: jest.fn(handle),
+    createShader: jest.fn(handle),
+    createProgram: jest.fn(handle),
+    createTexture: jest.fn(handle),
+    createFramebuffer: jest.fn(handle),
+    getShaderParameter: jest.fn(() => true),
+    getProgramParameter: jest.fn((_program, parameter) =>
+      parameter === constant("ACTIVE_UNIFORMS") ? 0 : true
+    ),
+    checkFramebufferStatus: jest.fn(() => constant("FRAMEBUFFER_COMPLETE")),
+    getExtension: jest.fn(() => extension),
+    getParameter: jest.fn(() => null),
+  };
+
+  return new Proxy(
+    { drawingBufferWidth: 300, drawingBufferHeight: 150 },
+    {
+      get(target, property: string) {
+        if (property in target) return target[property as keyof typeof target];
+        if (/^[A-Z0-9_]+$/.test(property)) return constant(property);
+        methods[property] ??= jest.fn();
+        return methods[property];
+      },
+    }
+  ) as MockWebGL;
+};
+
+const createCanvas = () => {
+  const gl = createMockWebGL();
+  const canvas = document.createElement("canvas");
+  canvas.getContext = jest.fn(() => gl) as unknown as typeof canvas.getContext;
+  return { gl, canvas };
+};
+
+const createRenderer = (
+  config: Partial<Config> = {},
+  options: RendererOptions = {},
+  { gl, canvas } = createCanvas()
+) => {
+  const renderer = new FluidRenderer(canvas, config, options);
+  return { gl, canvas, renderer };
+};
+
+describe("FluidRenderer", () => {
+  let renderers: FluidRenderer[] = [];
+  const track = <T extends { renderer: FluidRenderer }>(created: T): T => {
+    renderers.push(created.renderer);
+    return created;
+  };
+
+  afterEach(() => {
+    renderers.forEach((renderer) => renderer.destroy());
+    renderers = [];
+    jest.restoreAllMocks();
+  });
+
+  describe("context loss", () => {
+    it("stops on loss and rebuilds the GL resources on restore", () => {
+      const onContextLost = jest.fn();
+      const onContextRestored = jest.fn();
+      const initGLResources = jest.spyOn(
+        FluidRenderer.prototype as unknown as { initGLResources: () => void },
+        "initGLResources"
+      );
+      const { gl, canvas, renderer } = track(
+        createRenderer({}, { onContextLost, onContextRestored })
+      );
+      expect(initGLResources).toHaveBeenCalledTimes(1);
+
+      const lost = new Event("webglcontextlost", { cancelable: true });
+      canvas.dispatchEvent(lost);
+      expect(lost.defaultPrevented).toBe(true);
+      expect(onContextLost).toHaveBeenCalledTimes(1);
+      expect(renderer["contextLost"]).toBe(true);
+
+      const programs = gl.createProgram.mock.calls.length;
+      const framebuffers = gl.createFramebuffer.mock.calls.length;
+      const dye = renderer["dye"];
+      canvas.dispatchEvent(new Event("webglcontextrestored"));
+
+      expect(initGLResources).toHaveBeenCalledTimes(2);
+      expect(gl.createProgram.mock.calls.length).toBeGreaterThan(programs);
+      expect(gl.createFramebuffer.mock.calls.length).toBeGreaterThan(
+        framebuffers
+      );
+      expect(renderer["dye"]).not.toBe(dye);
+      expect(renderer["contextLost"]).toBe(false);
+      expect(onContextRestored).toHaveBeenCalledTimes(1);
+    });
+
+    it("leaves the context usable for a new renderer on the same canvas", () => {
+      const { gl, canvas, renderer } = createRenderer();
+      renderer.destroy();
+
+      expect(
+        gl.getExtension("WEBGL_lose_context").loseContext
+      ).not.toHaveBeenCalled();
+      expect(gl.deleteProgram).toHaveBeenCalled();
+      expect(gl.deleteFramebuffer).toHaveBeenCalled();
+      expect(gl.deleteTexture).toHaveBeenCalled();
+      expect(gl.deleteBuffer).toHaveBeenCalledTimes(2);
+      const deleted = new Set(
+        gl.deleteProgram.mock.calls.map(([program]) => program)
+      );
+
+      const { renderer: next } = track(createRenderer({}, {}, { gl, canvas }));
+      gl.useProgram.mockClear();
+      gl.drawElements.mockClear();
+      next.stepOnce();
+
+      expect(gl.drawElements).toHaveBeenCalled();
+      expect(gl.useProgram).toHaveBeenCalled();
+      gl.useProgram.mock.calls.forEach(([program]) =>
+        expect(deleted.has(program)).toBe(false)
+      );
+    });
+  });
+
+  describe("frame phases", () => {
+    it("applies inputs on loop frames without a solver step", () => {
+      const { renderer } = track(createRenderer());
+      const applyInputs = jest.spyOn(
+        renderer as unknown as { applyInputs: () => void },
+        "applyInputs"
+      );
+
+      renderer["runFrame"](0, 1 / 60);
+      expect(applyInputs).toHaveBeenCalledTimes(1);
+
+      renderer.pause();
+      renderer.redraw();
+      expect(applyInputs).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("display keywords", () => {
+    it("compiles a COLOR_LUT display program for the intensity color mode", () => {
+      const { gl, renderer } = track(createRenderer());
+      const material = renderer["displayMaterial"];
+      const defaultProgram = material["activeProgram"];
+
+      renderer.updateConfig({ COLOR_MODE: "intensity" });
+
+      const sources = gl.shaderSource.mock.calls.map(([, source]) => source);
+      expect(
+        sources.some((source) => source.includes("#define COLOR_LUT\n"))
+      ).toBe(true);
+      const lutProgram = material["activeProgram"];
+      expect(lutProgram).not.toBe(defaultProgram);
+
+      renderer.updateConfig({ COLOR_MODE: "fixed" });
+      expect(material["activeProgram"]).not.toBe(lutProgram);
+    });
+  });
+
+  describe("per-instance state", () => {
+    it("keeps color, bloom and sunrays state separate between renderers", () => {
+      const { renderer: first } = track(
+        createRenderer({ COLOR_SCHEME: "dusk", BLOOM_ITERATIONS: 8 })
+      );
+      const { renderer: second } = track(
+        createRenderer({ COLOR_SCHEME: "fire", BLOOM_ITERATIONS: 4 })
+      );
+
+      const { colors, index } = second["colorContext"];
+      const bloomFramebuffers = second["bloomFramebuffers"];
+      const sunrays = second["sunrays"];
+      expect(first["colorContext"]).not.toBe(second["colorContext"]);
+      expect(first["colorContext"].colors).not.toEqual(colors);
+
+      first.updateConfig({
+        COLOR_SCHEME: "sunset",
+        BLOOM_ITERATIONS: 12,
+        SUNRAYS_RESOLUTION: 128,
+      });
+      getRandomColor(first["colorContext"]);
+      first.stepOnce();
+
+      expect(second["colorContext"].scheme).toBe("fire");
+      expect(second["colorContext"].colors).toBe(colors);
+      expect(second["colorContext"].index).toBe(index);
+      expect(second["bloomFramebuffers"]).toBe(bloomFramebuffers);
+      expect(second["sunrays"]).toBe(sunrays);
+      expect(first["bloomFramebuffers"]).not.toBe(bloomFramebuffers);
+    });
+  });
+});
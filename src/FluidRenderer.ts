@@ -9,24 +9,61 @@ import {
   initBloomShaders,
 } from "./bloomManager";
 import {
+  createGradientTexture,
   drawColor as drawBackgroundColor,
+  createColorContext,
   getRandomColor,
+  getSchemeColors,
+  sampleGradient,
   initColorShaders,
+  setColorSampling,
   setColorScheme,
+  setCurrentColors,
+  updateGradientTexture,
 } from "./colorManager";
+import { DEFAULT_CONFIG, validateConfig } from "./configSchema";
 import {
+  applyBuoyancy,
   applyCurl,
+  applyDiffusion,
   applyDivergence,
   applyGradientSubtract,
   applyPressure,
   applyVorticity,
   initPhysicsShaders,
 } from "./physicsManager";
+import {
+  applyMultigridPressure,
+  initMultigridFramebuffers,
+  initMultigridShaders,
+} from "./multigridManager";
+import {
+  drawObstacleMask,
+  initObstacleTexture,
+  loadObstacleSource,
+  uploadObstacleMask,
+} from "./obstacleManager";
+import { FrameScheduler } from "./frameScheduler";
 import { PointerManager } from "./pointerManager";
+import { observeVisibility } from "./visibilityManager";
+import {
+  drawReducedMotionGradient,
+  initReducedMotionShaders,
+  observeReducedMotion,
+} from "./reducedMotionManager";
 import baseVertexShaderSource from "./shaders/baseVertexShader.glsl";
 import copyShaderSource from "./shaders/copyShader.glsl";
+import { createSeededRandom, SimulationClock } from "./simulationClock";
+import {
+  interpolateConfig,
+  mixColors,
+  mixPalettes,
+  resolveEasing,
+} from "./transitionManager";
 import {
   applyAdvection,
+  applyCorrectedAdvection,
+  applyHeatSplat,
   handlePointerSplat,
   initSplatShaders,
 } from "./splatManager";
@@ -37,22 +74,36 @@ import {
   initSunraysShaders,
 } from "./sunraysManager";
 import {
+  AdvectionCorrectionProgram,
   AdvectionProgram,
   BloomPrograms,
   BlurProgram,
+  ColorContext,
   ColorProgram,
   Config,
+  ConfigTransition,
   CurlFBO,
   DivergenceFBO,
   DoubleFBO,
   DyeFBO,
   FBO,
+  FrameHook,
+  FramePhase,
+  GradientProgram,
+  GradientTexture,
+  MultigridLevel,
+  MultigridPrograms,
+  ObstacleSource,
+  ObstacleTexture,
   PhysicsPrograms,
+  RGBColor,
   ShaderUniforms,
   SplatData,
   SplatProgram,
   SunraysPrograms,
+  TransitionOptions,
   VelocityFBO,
+  RendererOptions,
   WebGLContext,
 } from "./types";
 
@@ -64,12 +115,29 @@ export class FluidRenderer {
     formatR: { internalFormat: number; format: number } | null;
     halfFloatTexType: number;
     supportLinearFiltering: boolean;
+    isWebGL2: boolean;
   };
   private config: Config;
   private canvas: HTMLCanvasElement;
   private pointerManager: PointerManager;
-  private lastUpdateTime: number;
-  private animationFrameId: number | null = null;
+  private clock: SimulationClock;
+  private random: () => number;
+  private scheduler: FrameScheduler;
+  private userPaused = false;
+  private visible = true;
+  private lastFrameTime = 0;
+  private stopObservingVisibility: () => void;
+  private options: RendererOptions;
+  private contextLost = false;
+  private prefersReducedMotion = false;
+  private holdingStaticFrame = false;
+  private runningFrame = false;
+  private stopObservingReducedMotion: () => void;
+  private timeScale = 1;
+  private colorContext: ColorContext = createColorContext();
+  private frameCount = 0;
+  private splatQueue: SplatData[] = [];
+  private transition: ConfigTransition | null = null;
 
   // FBOs
   private dye!: DyeFBO;
@@ -77,10 +145,24 @@ export class FluidRenderer {
   private divergence!: DivergenceFBO;
   private curl!: CurlFBO;
   private pressure!: DoubleFBO;
+  private temperature!: DoubleFBO;
+  private temperatureGradient!: GradientTexture;
+  private colorGradient!: GradientTexture;
+  private multigrid!: { residual: FBO; levels: MultigridLevel[] };
+  private scratch: {
+    velocity: FBO;
+    dye: FBO;
+    temperature: FBO;
+  } | null = null;
   private bloom!: FBO;
   private bloomFramebuffers: FBO[] = [];
   private sunrays!: FBO;
   private sunraysTemp!: FBO;
+  private obstacles!: ObstacleTexture;
+  private obstacleSource: ObstacleSource | null = null;
+  private obstacleRequest = 0;
+  private buffers: WebGLBuffer[] = [];
+  private shaders: WebGLShader[] = [];
 
   // Programs
   private displayMaterial!: Material;
@@ -90,6 +172,11 @@ export class FluidRenderer {
   >;
   private curlProgram!: Program<PhysicsPrograms["curl"]["uniforms"]>;
   private vorticityProgram!: Program<PhysicsPrograms["vorticity"]["uniforms"]>;
+  private buoyancyProgram!: Program<PhysicsPrograms["buoyancy"]["uniforms"]>;
+  private diffusionProgram!: Program<PhysicsPrograms["diffusion"]["uniforms"]>;
+  private residualProgram!: Program<MultigridPrograms["residual"]["uniforms"]>;
+  private restrictProgram!: Program<MultigridPrograms["restrict"]["uniforms"]>;
+  private prolongProgram!: Program<MultigridPrograms["prolong"]["uniforms"]>;
   private gradienSubtractProgram!: Program<
     PhysicsPrograms["gradientSubtract"]["uniforms"]
   >;
@@ -105,53 +192,96 @@ export class FluidRenderer {
   private bloomFinalProgram!: Program<BloomPrograms["bloomFinal"]["uniforms"]>;
   private splatProgram!: Program<SplatProgram["uniforms"]>;
   private advectionProgram!: Program<AdvectionProgram["uniforms"]>;
+  private maccormackProgram!: Program<AdvectionCorrectionProgram["uniforms"]>;
+  private bfeccProgram!: Program<AdvectionCorrectionProgram["uniforms"]>;
   private colorProgram!: Program<ColorProgram["uniforms"]>;
+  private gradientProgram!: Program<GradientProgram["uniforms"]>;
   private copyProgram!: Program;
   private clearProgram!: Program;
 
-  private ditheringTexture: {
+  private ditheringTexture!: {
     texture: WebGLTexture | null;
     width: number;
     height: number;
     attach: (id: number) => number;
   };
 
-  constructor(canvas: HTMLCanvasElement, config?: Partial<Config>) {
+  constructor(
+    canvas: HTMLCanvasElement,
+    config?: Partial<Config>,
+    options: RendererOptions = {}
+  ) {
     this.canvas = canvas;
     this.config = {
-      SIM_RESOLUTION: 512,
-      DYE_RESOLUTION: 1024,
-      DENSITY_DISSIPATION: 2.5,
-      VELOCITY_DISSIPATION: 0.9,
-      PRESSURE: 0.8,
-      PRESSURE_ITERATIONS: 20,
-      CURL: 0.1,
-      SPLAT_RADIUS: 0.0003,
-      SPLAT_FORCE: 8000,
-      BACK_COLOR: { r: 0, g: 0, b: 0 },
-      BLOOM_ITERATIONS: 10,
-      BLOOM_RESOLUTION: 256,
-      BLOOM_INTENSITY: 0.15,
-      BLOOM_THRESHOLD: 0.0,
-      BLOOM_SOFT_KNEE: 0.7,
-      SUNRAYS_RESOLUTION: 256,
-      SUNRAYS_WEIGHT: 0.1,
-      COLOR_SCHEME: "dusk",
-      DUFFING: {
-        NUM_OSCILLATORS: 8,
-        DELTA: 0.2,
-        BETA: 0.08,
-        ALPHA: 0.9,
-        GAMMA: 0.8,
-        OMEGA: 0.4,
-      },
-      ...config,
+      ...DEFAULT_CONFIG,
+      ...validateConfig(config ?? {}, { strict: options.strictConfig }).config,
     };
 
+    this.options = options;
+
     const { gl, ext } = this.getWebGLContext(canvas);
     this.gl = gl;
     this.ext = ext;
 
+    // Initialize color scheme
+    this.initColorScheme();
+
+    this.initGLResources();
+
+    // Deterministic runs are frame-locked unless the host injects a clock
+    this.random = this.config.DETERMINISTIC
+      ? createSeededRandom(this.config.SEED)
+      : Math.random;
+    this.applyColorSampling();
+    this.clock = new SimulationClock(
+      options.timeSource ??
+        (this.config.DETERMINISTIC ? null : () => performance.now())
+    );
+
+    // Initialize pointer manager
+    this.pointerManager = new PointerManager(
+      canvas,
+      () => getRandomColor(this.colorContext),
+      (splatData: SplatData) => this.splatQueue.push(splatData),
+      this.config,
+      this.random,
+      (t: number) =>
+        sampleGradient(
+          this.colorContext.colors,
+          t,
+          this.config.COLOR_INTERPOLATION
+        )
+    );
+
+    // Stop on context loss and rebuild everything on restore
+    canvas.addEventListener("webglcontextlost", this.handleContextLost);
+    canvas.addEventListener("webglcontextrestored", this.handleContextRestored);
+
+    // Start the animation loop
+    this.scheduler = new FrameScheduler(this.update);
+    this.scheduler.start();
+
+    // Throttle while the canvas is offscreen or the tab is hidden
+    this.stopObservingVisibility = observeVisibility(canvas, (visible) => {
+      this.visible = visible;
+      this.updateScheduling();
+    });
+
+    // Follow prefers-reduced-motion unless REDUCED_MOTION overrides it
+    this.stopObservingReducedMotion = observeReducedMotion((reduce) => {
+      this.prefersReducedMotion = reduce;
+      this.applyReducedMotion();
+    });
+  }
+
+  /**
+   * Create the GPU resources: geometry, programs, textures and framebuffers.
+   * Runs again after a lost context is restored.
+   */
+  private initGLResources() {
+    const gl = this.gl;
+    this.shaders = [];
+
     // Initialize vertex buffer and element array buffer
     const vertices = new Float32Array([
       -1,
@@ -182,15 +312,15 @@ export class FluidRenderer {
     const elementBuffer = gl.createBuffer();
     gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, elementBuffer);
     gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+    this.buffers = [vertexBuffer, elementBuffer].filter(
+      (buffer): buffer is WebGLBuffer => buffer !== null
+    );
 
     // Enable vertex attributes
     const vertexPosition = 0; // attribute location 0
     gl.enableVertexAttribArray(vertexPosition);
     gl.vertexAttribPointer(vertexPosition, 2, gl.FLOAT, false, 0, 0);
 
-    // Initialize color scheme
-    this.initColorScheme();
-
     // Compile base shaders
     const baseVertexShader = this.compileShader(
       gl.VERTEX_SHADER,
@@ -201,51 +331,71 @@ export class FluidRenderer {
       gl.FRAGMENT_SHADER,
       clearShader
     );
-    const displayShader = this.compileShader(
-      gl.FRAGMENT_SHADER,
-      displayShaderSource
-    );
 
     // Initialize all programs
-    this.initPrograms(
-      baseVertexShader,
-      copyShader,
-      clearShaderCompiled,
-      displayShader
+    this.initPrograms(baseVertexShader, copyShader, clearShaderCompiled);
+
+    // Initialize obstacle mask, empty until setObstacles is called
+    this.obstacles = initObstacleTexture(gl);
+
+    // Initialize lookup table used to display temperature
+    this.temperatureGradient = createGradientTexture(
+      gl,
+      getSchemeColors(this.config.TEMPERATURE_COLOR_SCHEME),
+      256,
+      this.config.COLOR_INTERPOLATION
+    );
+
+    // Initialize lookup table used by the intensity color mode
+    this.colorGradient = createGradientTexture(
+      gl,
+      this.colorContext.colors,
+      256,
+      this.config.COLOR_INTERPOLATION
     );
 
     // Initialize framebuffers
-    this.initFramebuffers();
+    this.initFramebuffers(false);
 
     // Initialize display keywords
     this.updateKeywords();
 
-    // Initialize pointer manager
-    this.pointerManager = new PointerManager(
-      canvas,
-      () => getRandomColor(),
-      (splatData: SplatData) => this.handleSplat(splatData),
-      this.config
-    );
-
-    this.lastUpdateTime = Date.now();
     this.ditheringTexture = this.createDitheringTexture();
-
-    // Start the animation loop
-    this.update();
   }
 
+  private handleContextLost = (event: Event) => {
+    // Allows the browser to restore the context later
+    event.preventDefault();
+    this.contextLost = true;
+    this.updateScheduling();
+    this.options.onContextLost?.();
+  };
+
+  private handleContextRestored = () => {
+    // Extensions have to be enabled again on the restored context
+    this.ext = this.getWebGLContext(this.canvas).ext;
+    this.initGLResources();
+    this.contextLost = false;
+    this.updateScheduling();
+    if (this.holdingStaticFrame) this.redraw();
+    this.options.onContextRestored?.();
+  };
+
   private initPrograms(
     baseVertexShader: WebGLShader,
     copyShader: WebGLShader,
-    clearShader: WebGLShader,
-    displayShader: WebGLShader
+    clearShader: WebGLShader
   ) {
     const physicsShaders = initPhysicsShaders(
       this.gl,
       baseVertexShader,
       (type, source) => this.compileShader(type, source)
     );
+    const multigridShaders = initMultigridShaders(
+      this.gl,
+      baseVertexShader,
+      (type, source) => this.compileShader(type, source)
+    );
     const sunraysShaders = initSunraysShaders(
       this.gl,
       baseVertexShader,
@@ -267,6 +417,11 @@ export class FluidRenderer {
       baseVertexShader,
       (type, source) => this.compileShader(type, source)
     );
+    const reducedMotionShaders = initReducedMotionShaders(
+      this.gl,
+      baseVertexShader,
+      (type, source) => this.compileShader(type, source)
+    );
 
     this.pressureProgram = new Program(
       this.gl,
@@ -288,6 +443,31 @@ export class FluidRenderer {
       baseVertexShader,
       physicsShaders.vorticityShader
     );
+    this.buoyancyProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      physicsShaders.buoyancyShader
+    );
+    this.diffusionProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      physicsShaders.diffusionShader
+    );
+    this.residualProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      multigridShaders.residualShader
+    );
+    this.restrictProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      multigridShaders.restrictShader
+    );
+    this.prolongProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      multigridShaders.prolongShader
+    );
     this.gradienSubtractProgram = new Program(
       this.gl,
       baseVertexShader,
@@ -336,41 +516,265 @@ export class FluidRenderer {
       baseVertexShader,
       splatShaders.advectionShader
     );
+    this.maccormackProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      splatShaders.maccormackShader
+    );
+    this.bfeccProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      splatShaders.bfeccShader
+    );
 
     this.colorProgram = new Program(
       this.gl,
       baseVertexShader,
       colorShaders.colorShader
     );
+    this.gradientProgram = new Program(
+      this.gl,
+      baseVertexShader,
+      reducedMotionShaders.gradientShader
+    );
     this.copyProgram = new Program(this.gl, baseVertexShader, copyShader);
     this.clearProgram = new Program(this.gl, baseVertexShader, clearShader);
     this.displayMaterial = new Material(
       this.gl,
       baseVertexShader,
-      displayShader
+      displayShaderSource,
+      (type, source, keywords) => this.compileShader(type, source, keywords)
     );
   }
 
   private initColorScheme(
     scheme: ColorConfiguration = this.config.COLOR_SCHEME
   ) {
-    setColorScheme(scheme);
+    setColorScheme(this.colorContext, scheme);
+    if (this.colorGradient) {
+      this.updateColorGradient();
+    }
   }
 
-  private update = () => {
-    const dt = this.calcDeltaTime();
-    if (this.resizeCanvas()) this.initFramebuffers();
-    this.applyInputs();
-    this.step(dt);
-    this.render(null);
-    this.animationFrameId = requestAnimationFrame(this.update);
+  /**
+   * Refill the intensity color mode lookup table from the current palette
+   */
+  private updateColorGradient() {
+    updateGradientTexture(
+      this.gl,
+      this.colorGradient,
+      this.colorContext.colors,
+      this.config.COLOR_INTERPOLATION
+    );
+  }
+
+  private applyColorSampling() {
+    setColorSampling(this.colorContext, {
+      sampling: this.config.COLOR_SAMPLING,
+      interpolation: this.config.COLOR_INTERPOLATION,
+      step: this.config.COLOR_SAMPLING_STEP,
+      period: this.config.COLOR_CYCLE_PERIOD,
+      random: this.random,
+    });
+  }
+
+  private update = (timestamp: number) => {
+    // Skip frames to hold a reduced frame rate; the clock catches up in fixed steps
+    const fps = this.getTargetFps();
+    if (fps !== null && timestamp - this.lastFrameTime < 1000 / fps - 1) {
+      return;
+    }
+    this.lastFrameTime = timestamp;
+
+    const steps = this.clock.tick(
+      this.config.FIXED_TIMESTEP,
+      this.config.MAX_STEPS_PER_FRAME
+    );
+    this.runFrame(steps, this.config.FIXED_TIMESTEP);
   };
 
-  private calcDeltaTime(): number {
-    const now = Date.now();
-    const dt = (now - this.lastUpdateTime) / 1000;
-    this.lastUpdateTime = now;
-    return Math.min(dt, 0.016666);
+  /**
+   * Run the phases of one frame
+   * @param steps - Fixed steps to simulate, each split into SUBSTEPS solver steps
+   * @param stepSize - Length of a fixed step in seconds
+   */
+  private runFrame(steps: number, stepSize: number) {
+    if (this.contextLost) return;
+    this.runningFrame = true;
+    try {
+      this.runFramePhases(steps, stepSize);
+    } finally {
+      this.runningFrame = false;
+    }
+  }
+
+  private runFramePhases(steps: number, stepSize: number) {
+    if (this.resizeCanvas()) this.initFramebuffers();
+    this.advanceTransition();
+    this.colorContext.time = this.clock.time;
+
+    // Emitters and solver advance together on the shared fixed-step clock
+    const substeps = Math.max(1, Math.round(this.config.SUBSTEPS));
+    const dt = stepSize / substeps;
+    const frame = this.frameCount++;
+    const context = () => ({ frame, time: this.clock.time, dt });
+
+    // The calm gradient replaces the simulation entirely
+    const calm =
+      this.isReducedMotion() && this.config.REDUCED_MOTION_MODE === "gradient";
+    const solverSteps = calm ? 0 : steps * substeps;
+
+    // Frames without a fixed step are common on high refresh rate displays;
+    // the loop still applies pointer splats on them instead of holding them
+    // back until the next step. Redraws outside the loop only show the state.
+    if (solverSteps === 0 && !calm && this.scheduler.running) {
+      this.scheduler.runPhase("inputs", context(), () => this.applyInputs());
+    }
+    for (let i = 0; i < solverSteps; i++) {
+      this.scheduler.runPhase("inputs", context(), () => this.applyInputs());
+      this.scheduler.runPhase("emitters", context(), () =>
+        this.pointerManager.updateEmitters(dt)
+      );
+      this.scheduler.runPhase("simulation", context(), () => this.step(dt));
+    }
+    this.scheduler.runPhase("post", context(), () => {
+      if (!calm) this.postProcess();
+    });
+    this.scheduler.runPhase("present", context(), () => {
+      if (calm) {
+        drawReducedMotionGradient(
+          this.gl,
+          null,
+          this.colorContext.colors,
+          this.clock.time,
+          this.gradientProgram,
+          this.blit
+        );
+      } else {
+        this.present(null);
+      }
+    });
+  }
+
+  /**
+   * Stop the frame loop. The last frame stays on screen and emitters freeze
+   * with the solver.
+   */
+  public pause() {
+    this.userPaused = true;
+    this.updateScheduling();
+  }
+
+  /**
+   * Restart the frame loop without catching up on the time spent paused
+   */
+  public resume() {
+    this.userPaused = false;
+    this.updateScheduling();
+  }
+
+  public get paused(): boolean {
+    return this.userPaused;
+  }
+
+  /**
+   * Frame rate cap from the throttling config, null when uncapped
+   */
+  private getTargetFps(): number | null {
+    if (this.config.THROTTLE && !this.visible) return this.config.OFFSCREEN_FPS;
+    if (this.config.LOW_POWER) return this.config.LOW_POWER_FPS;
+    return null;
+  }
+
+  /**
+   * Start or stop the frame loop to match pause() and visibility throttling
+   */
+  private updateScheduling() {
+    const holdStatic =
+      this.isReducedMotion() && this.config.REDUCED_MOTION_MODE === "static";
+    const shouldRun =
+      !this.userPaused &&
+      !this.contextLost &&
+      !holdStatic &&
+      this.getTargetFps() !== 0;
+    if (shouldRun && !this.scheduler.running) {
+      // Discard the time spent stopped so there is no catch-up burst
+      this.clock.sync();
+      this.scheduler.start();
+    } else if (!shouldRun && this.scheduler.running) {
+      this.scheduler.stop();
+    }
+  }
+
+  /**
+   * Advance and draw a single frame, typically while paused
+   * @param dt - Seconds to simulate, defaults to FIXED_TIMESTEP
+   */
+  public stepOnce(dt: number = this.config.FIXED_TIMESTEP) {
+    this.clock.advance(dt);
+    this.runFrame(1, dt);
+  }
+
+  /**
+   * Draw the current state again without advancing it, e.g. to show config
+   * changes while paused or while holding a static reduced motion frame
+   */
+  public redraw() {
+    this.runFrame(0, this.config.FIXED_TIMESTEP);
+  }
+
+  /**
+   * Scale the speed of the simulation and emitters, e.g. 0.5 for slow motion
+   * @param scale - Simulated seconds per real second, 0 freezes motion but keeps rendering
+   */
+  public setTimeScale(scale: number) {
+    this.timeScale = scale;
+    this.applyReducedMotion();
+  }
+
+  private isReducedMotion(): boolean {
+    return this.config.REDUCED_MOTION === "auto"
+      ? this.prefersReducedMotion
+      : this.config.REDUCED_MOTION;
+  }
+
+  /**
+   * Apply the reduced motion mode: slow the clock, or hold a single frame
+   * that shows at least a second of simulation. The static frame is drawn
+   * once when it starts being held; use redraw to show later changes.
+   */
+  private applyReducedMotion() {
+    const reduced = this.isReducedMotion();
+    const mode = this.config.REDUCED_MOTION_MODE;
+    this.clock.timeScale =
+      reduced && mode === "slow"
+        ? this.timeScale * this.config.REDUCED_MOTION_TIME_SCALE
+        : this.timeScale;
+
+    const holdStatic = reduced && mode === "static";
+    const startHolding = holdStatic && !this.holdingStaticFrame;
+    this.holdingStaticFrame = holdStatic;
+    // Inside a frame, e.g. when a transition lands, that frame presents it
+    if (startHolding && !this.runningFrame) this.drawStaticFrame();
+    this.updateScheduling();
+  }
+
+  private drawStaticFrame() {
+    // Nothing animates while the frame is held, so a running transition lands now
+    this.completeTransition();
+    const warmup = Math.max(0, 1 - this.clock.time);
+    const steps = Math.ceil(warmup / this.config.FIXED_TIMESTEP);
+    this.clock.advance(steps * this.config.FIXED_TIMESTEP);
+    this.runFrame(steps, this.config.FIXED_TIMESTEP);
+  }
+
+  /**
+   * Register a hook that runs after the built-in work of a frame phase,
+   * e.g. "present" to sync an overlay with the displayed frame
+   * @returns Function removing the hook
+   */
+  public onFramePhase(phase: FramePhase, hook: FrameHook): () => void {
+    return this.scheduler.on(phase, hook);
   }
 
   private resizeCanvas(): boolean {
@@ -384,8 +788,15 @@ export class FluidRenderer {
     return false;
   }
 
+  /**
+   * Apply every splat queued since the last input phase: user pointers,
+   * manual splats and the emitters of the previous step
+   */
   private applyInputs() {
     this.pointerManager.applyInputs();
+    const splats = this.splatQueue;
+    this.splatQueue = [];
+    splats.forEach((splatData) => this.handleSplat(splatData));
   }
 
   private step(dt: number) {
@@ -396,10 +807,19 @@ export class FluidRenderer {
       divergence: this.divergenceProgram,
       curl: this.curlProgram,
       vorticity: this.vorticityProgram,
+      buoyancy: this.buoyancyProgram,
+      diffusion: this.diffusionProgram,
       gradientSubtract: this.gradienSubtractProgram,
     };
 
-    applyCurl(this.gl, this.velocity, this.curl, programs, this.blit);
+    applyCurl(
+      this.gl,
+      this.config,
+      this.velocity,
+      this.curl,
+      programs,
+      this.blit
+    );
     applyVorticity(
       this.gl,
       this.config,
@@ -409,10 +829,36 @@ export class FluidRenderer {
       programs,
       this.blit
     );
+    if (this.config.TEMPERATURE_ENABLED) {
+      applyBuoyancy(
+        this.gl,
+        this.config,
+        dt,
+        this.velocity,
+        this.temperature,
+        programs,
+        this.blit
+      );
+    }
+    if (this.config.VISCOSITY > 0 && this.scratch) {
+      applyDiffusion(
+        this.gl,
+        this.config,
+        dt,
+        this.config.VISCOSITY,
+        this.velocity,
+        this.scratch.velocity,
+        this.obstacles,
+        programs,
+        this.blit
+      );
+    }
     applyDivergence(
       this.gl,
+      this.config,
       this.velocity,
       this.divergence,
+      this.obstacles,
       programs,
       this.blit
     );
@@ -426,47 +872,122 @@ export class FluidRenderer {
     this.blit(this.pressure.write);
     this.pressure.swap();
 
-    applyPressure(
-      this.gl,
-      this.config,
-      this.pressure,
-      this.divergence,
-      this.velocity,
-      programs,
-      this.blit
-    );
+    if (this.config.PRESSURE_SOLVER === "multigrid") {
+      applyMultigridPressure(
+        this.gl,
+        this.config,
+        this.pressure,
+        this.divergence,
+        this.multigrid,
+        this.obstacles,
+        programs,
+        {
+          residual: this.residualProgram,
+          restrict: this.restrictProgram,
+          prolong: this.prolongProgram,
+        },
+        this.blit
+      );
+    } else {
+      applyPressure(
+        this.gl,
+        this.config,
+        this.pressure,
+        this.divergence,
+        this.velocity,
+        this.obstacles,
+        programs,
+        this.blit
+      );
+    }
     applyGradientSubtract(
       this.gl,
+      this.config,
       this.pressure,
       this.velocity,
+      this.obstacles,
       programs,
       this.blit
     );
 
-    applyAdvection(
-      this.gl,
-      this.velocity,
+    this.advect(
+      dt,
       this.velocity,
+      this.scratch?.velocity,
+      this.config.VELOCITY_DISSIPATION
+    );
+    this.advect(
       dt,
-      this.config.VELOCITY_DISSIPATION,
-      this.advectionProgram,
-      this.blit,
-      this.ext.supportLinearFiltering
+      this.dye,
+      this.scratch?.dye,
+      this.config.DENSITY_DISSIPATION
     );
+    if (this.config.DYE_DIFFUSION > 0 && this.scratch) {
+      applyDiffusion(
+        this.gl,
+        this.config,
+        dt,
+        this.config.DYE_DIFFUSION,
+        this.dye,
+        this.scratch.dye,
+        this.obstacles,
+        programs,
+        this.blit
+      );
+    }
+    if (this.config.TEMPERATURE_ENABLED) {
+      this.advect(
+        dt,
+        this.temperature,
+        this.scratch?.temperature,
+        this.config.TEMPERATURE_DISSIPATION
+      );
+    }
+  }
 
-    applyAdvection(
+  private advect(
+    dt: number,
+    source: DoubleFBO,
+    scratch: FBO | undefined,
+    dissipation: number
+  ) {
+    const scheme = this.config.ADVECTION_SCHEME;
+    if (scheme === "semi-lagrangian" || !scratch) {
+      applyAdvection(
+        this.gl,
+        this.velocity,
+        source,
+        this.obstacles,
+        dt,
+        dissipation,
+        this.config.BOUNDARY_MODE,
+        this.advectionProgram,
+        this.blit,
+        this.ext.supportLinearFiltering
+      );
+      return;
+    }
+    applyCorrectedAdvection(
       this.gl,
+      scheme,
       this.velocity,
-      this.dye,
+      source,
+      scratch,
+      this.obstacles,
       dt,
-      this.config.DENSITY_DISSIPATION,
-      this.advectionProgram,
+      dissipation,
+      this.config.BOUNDARY_MODE,
+      {
+        advection: this.advectionProgram,
+        maccormack: this.maccormackProgram,
+        bfecc: this.bfeccProgram,
+      },
       this.blit,
       this.ext.supportLinearFiltering
     );
   }
 
-  private render(target: FBO | null) {
+  private postProcess() {
     applyBloom(
       this.gl,
       {
@@ -478,6 +999,7 @@ export class FluidRenderer {
       },
       this.dye.read,
       this.bloom,
+      this.bloomFramebuffers,
       this.blit,
       {
         bloomPrefilter: this.bloomPrefilterProgram,
@@ -511,7 +1033,9 @@ export class FluidRenderer {
       this.blurProgram,
       this.blit
     );
+  }
 
+  private present(target: FBO | null) {
     this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
     this.gl.enable(this.gl.BLEND);
 
@@ -557,15 +1081,42 @@ export class FluidRenderer {
       this.displayMaterial.uniforms.uSunrays,
       this.sunrays.attach(3)
     );
+    this.gl.uniform1i(
+      this.displayMaterial.uniforms.uObstacles,
+      this.obstacles.attach(4)
+    );
+    this.gl.uniform1f(
+      this.displayMaterial.uniforms.showObstacles,
+      this.config.SHOW_OBSTACLES ? 1 : 0
+    );
+    const { r, g, b } = this.config.OBSTACLE_COLOR;
+    this.gl.uniform3f(this.displayMaterial.uniforms.obstacleColor, r, g, b);
+    this.gl.uniform1i(
+      this.displayMaterial.uniforms.uTemperature,
+      this.temperature.read.attach(5)
+    );
+    this.gl.uniform1i(
+      this.displayMaterial.uniforms.uTemperatureGradient,
+      this.temperatureGradient.attach(6)
+    );
+    this.gl.uniform1i(
+      this.displayMaterial.uniforms.uColorGradient,
+      this.colorGradient.attach(7)
+    );
+    this.gl.uniform1f(
+      this.displayMaterial.uniforms.temperatureIntensity,
+      this.config.TEMPERATURE_ENABLED ? this.config.TEMPERATURE_INTENSITY : 0
+    );
     this.blit(target);
   }
 
   private handleSplat(splatData: SplatData) {
+    const pressure = splatData.pressure ?? 1;
     handlePointerSplat(
       splatData,
       {
-        SPLAT_FORCE: this.config.SPLAT_FORCE,
-        SPLAT_RADIUS: this.config.SPLAT_RADIUS,
+        SPLAT_FORCE: this.config.SPLAT_FORCE * pressure,
+        SPLAT_RADIUS: this.config.SPLAT_RADIUS * pressure,
       },
       this.gl,
       this.velocity,
@@ -574,33 +1125,327 @@ export class FluidRenderer {
       this.splatProgram,
       this.blit
     );
+
+    if (this.config.TEMPERATURE_ENABLED) {
+      applyHeatSplat(
+        this.gl,
+        {
+          SPLAT_FORCE: this.config.SPLAT_FORCE,
+          SPLAT_RADIUS: this.config.SPLAT_RADIUS,
+        },
+        splatData.texcoordX,
+        splatData.texcoordY,
+        this.config.SPLAT_HEAT * pressure,
+        this.temperature,
+        this.canvas,
+        this.splatProgram,
+        this.blit
+      );
+    }
+  }
+
+  /**
+   * Set the solid geometry the fluid flows around, or clear it with null.
+   * Rectangles are re-rasterized whenever the canvas is resized. When calls
+   * overlap, only the latest one is applied, however long earlier loads take.
+   */
+  public async setObstacles(source: ObstacleSource | null): Promise<void> {
+    const request = ++this.obstacleRequest;
+    const loaded = source ? await loadObstacleSource(source) : null;
+    if (request !== this.obstacleRequest) return;
+
+    this.obstacleSource = loaded;
+    this.updateObstacleMask();
+  }
+
+  private updateObstacleMask() {
+    const mask = this.obstacleSource
+      ? drawObstacleMask(
+          this.obstacleSource,
+          this.gl.drawingBufferWidth,
+          this.gl.drawingBufferHeight,
+          this.canvas.clientWidth,
+          this.canvas.clientHeight
+        )
+      : null;
+    uploadObstacleMask(this.gl, this.obstacles, mask);
+  }
+
+  /**
+   * Copy of the current config, e.g. to save it with exportConfig
+   */
+  public getConfig(): Config {
+    return JSON.parse(JSON.stringify(this.config));
   }
 
+  /**
+   * Merge new config values and apply what changed. A running transition
+   * jumps to its end first.
+   */
   public updateConfig(newConfig: Partial<Config>) {
+    const { config } = validateConfig(newConfig, {
+      strict: this.options.strictConfig,
+      base: this.transition?.to ?? this.config,
+    });
+    if (this.transition) this.completeTransition();
+    this.applyConfig(config);
+  }
+
+  /**
+   * Animate from the current config to a new one. Numbers, including
+   * BACK_COLOR, are interpolated and the splat colors blend from the current
+   * scheme to the new one; keys that cannot be blended switch at the end.
+   * Progress follows the simulation clock, so the transition pauses with the
+   * renderer. A new transition starts from wherever the running one got to.
+   * @returns Promise resolving when the transition ends or is superseded
+   */
+  public transitionTo(
+    newConfig: Partial<Config>,
+    { duration = 1000, easing }: TransitionOptions = {}
+  ): Promise<void> {
+    const { config } = validateConfig(newConfig, {
+      strict: this.options.strictConfig,
+      base: this.transition?.to ?? this.config,
+    });
+    const previous = this.transition;
+    previous?.resolve();
+
+    // Keep the previous target so its discrete keys still land
+    const to: Config = { ...(previous?.to ?? this.config), ...config };
+    const toPalette = getSchemeColors(to.COLOR_SCHEME);
+
+    return new Promise((resolve) => {
+      this.transition = {
+        from: this.config,
+        to,
+        start: this.clock.time,
+        duration: Math.max(0, duration) / 1000,
+        easing: resolveEasing(easing),
+        blendColors:
+          previous !== null ||
+          JSON.stringify(to.COLOR_SCHEME) !==
+            JSON.stringify(this.config.COLOR_SCHEME),
+        fromPalette: this.colorContext.colors,
+        toPalette,
+        fromSourceColors: this.pointerManager.getSourceColors(),
+        resolve,
+      };
+      // Nothing is drawn while holding a static frame, so apply it at once
+      const holdStatic =
+        this.isReducedMotion() && this.config.REDUCED_MOTION_MODE === "static";
+      if (duration <= 0 || holdStatic) this.completeTransition();
+    });
+  }
+
+  private advanceTransition() {
+    const transition = this.transition;
+    if (!transition) return;
+
+    const progress =
+      transition.duration > 0
+        ? Math.min(
+            (this.clock.time - transition.start) / transition.duration,
+            1
+          )
+        : 1;
+    if (progress >= 1) {
+      this.completeTransition();
+      return;
+    }
+
+    const t = transition.easing(progress);
+    if (transition.blendColors) this.blendTransitionColors(transition, t);
+    this.applyConfig(interpolateConfig(transition.from, transition.to, t));
+  }
+
+  private completeTransition() {
+    const transition = this.transition;
+    if (!transition) return;
+    this.transition = null;
+
+    if (transition.blendColors) this.blendTransitionColors(transition, 1);
+    this.applyConfig(transition.to);
+    // Restore the exact scheme in place of the stretched blend
+    if (transition.blendColors) this.initColorScheme();
+    transition.resolve();
+  }
+
+  /**
+   * Blend the splat palette and recolor each emitter towards its color in
+   * the target scheme
+   */
+  private blendTransitionColors(
+    { fromPalette, toPalette, fromSourceColors }: ConfigTransition,
+    t: number
+  ) {
+    setCurrentColors(this.colorContext, mixPalettes(fromPalette, toPalette, t));
+    this.updateColorGradient();
+    this.pointerManager.setSourceColors(
+      fromSourceColors.map((color, i) =>
+        mixColors(color, toPalette[i % toPalette.length], t)
+      )
+    );
+  }
+
+  /**
+   * Apply what changed between the current and the merged config. Only the
+   * framebuffers whose size depends on a changed key are reallocated, with
+   * the dye, velocity and temperature resampled into their new sizes.
+   */
+  private applyConfig(newConfig: Partial<Config>) {
+    const previous = this.config;
     this.config = { ...this.config, ...newConfig };
-    if (newConfig.COLOR_SCHEME) {
-      this.initColorScheme(newConfig.COLOR_SCHEME);
+    const changed = (...keys: (keyof Config)[]) =>
+      keys.some(
+        (key) =>
+          JSON.stringify(previous[key]) !== JSON.stringify(this.config[key])
+      );
+
+    if (changed("COLOR_SCHEME")) {
+      this.initColorScheme();
+    } else if (changed("COLOR_INTERPOLATION")) {
+      this.updateColorGradient();
+    }
+    if (changed("COLOR_MODE")) {
+      this.updateKeywords();
+    }
+    if (
+      changed(
+        "COLOR_SAMPLING",
+        "COLOR_INTERPOLATION",
+        "COLOR_SAMPLING_STEP",
+        "COLOR_CYCLE_PERIOD"
+      )
+    ) {
+      this.applyColorSampling();
+    }
+
+    const simChanged = changed("SIM_RESOLUTION");
+    const dyeChanged = changed("DYE_RESOLUTION");
+    if (dyeChanged) {
+      this.allocateDyeFramebuffers();
+    }
+    if (simChanged) {
+      this.allocateSimulationFramebuffers();
+    }
+    const scratchChanged =
+      simChanged ||
+      dyeChanged ||
+      this.needsScratch() !== (this.scratch !== null);
+    if (scratchChanged) {
+      this.allocateScratchFramebuffers();
+    }
+    if (simChanged || changed("BLOOM_ITERATIONS", "BLOOM_RESOLUTION")) {
+      this.allocateBloomFramebuffers();
+    }
+    if (changed("SUNRAYS_RESOLUTION")) {
+      this.allocateSunraysFramebuffers();
+    }
+    if (scratchChanged || changed("BOUNDARY_MODE")) {
+      this.applyWrapMode();
+    }
+
+    if (changed("TEMPERATURE_COLOR_SCHEME", "COLOR_INTERPOLATION")) {
+      updateGradientTexture(
+        this.gl,
+        this.temperatureGradient,
+        getSchemeColors(this.config.TEMPERATURE_COLOR_SCHEME),
+        this.config.COLOR_INTERPOLATION
+      );
+    }
+    if (
+      changed(
+        "INPUT_MODE",
+        "MOTION_SOURCES",
+        "DUFFING",
+        "LORENZ",
+        "ROSSLER",
+        "CLIFFORD",
+        "DE_JONG"
+      )
+    ) {
+      this.pointerManager.updateConfig(this.config);
+    }
+    if (
+      changed(
+        "EMITTER_COLOR_DRIFT",
+        "COLOR_MODE",
+        "COLOR_SPEED_RANGE",
+        "COLOR_CYCLE_PERIOD"
+      )
+    ) {
+      this.pointerManager.updateColorConfig(this.config);
     }
+    this.applyReducedMotion();
   }
 
   public destroy() {
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-    }
+    this.canvas.removeEventListener("webglcontextlost", this.handleContextLost);
+    this.canvas.removeEventListener(
+      "webglcontextrestored",
+      this.handleContextRestored
+    );
+    this.scheduler.stop();
+    this.scheduler.clear();
+    this.stopObservingVisibility();
+    this.stopObservingReducedMotion();
+    this.pointerManager.destroy();
+    this.transition?.resolve();
+    this.transition = null;
 
     // Disable vertex attributes
     this.gl.disableVertexAttribArray(0);
 
-    // Delete buffers
-    const vertexBuffer = this.gl.getParameter(this.gl.ARRAY_BUFFER_BINDING);
-    const elementBuffer = this.gl.getParameter(
-      this.gl.ELEMENT_ARRAY_BUFFER_BINDING
-    );
-    if (vertexBuffer) this.gl.deleteBuffer(vertexBuffer);
-    if (elementBuffer) this.gl.deleteBuffer(elementBuffer);
+    // Leave the context usable so a new renderer on the same canvas can draw
+    this.deleteGLResources();
+  }
+
+  /**
+   * Delete the programs, shaders, textures, framebuffers and buffers this
+   * renderer created
+   */
+  private deleteGLResources() {
+    Object.values(this).forEach((value) => {
+      if (value instanceof Program || value instanceof Material) {
+        value.destroy();
+      }
+    });
+    this.shaders.forEach((shader) => this.gl.deleteShader(shader));
+    this.shaders = [];
+
+    this.deleteDoubleFBO(this.dye);
+    this.deleteDoubleFBO(this.velocity);
+    this.deleteDoubleFBO(this.temperature);
+    this.deleteDoubleFBO(this.pressure);
+    this.deleteFBO(this.divergence);
+    this.deleteFBO(this.curl);
+    this.multigrid?.levels.forEach((level) => {
+      this.deleteDoubleFBO(level.pressure);
+      this.deleteFBO(level.rhs);
+      this.deleteFBO(level.residual);
+    });
+    this.deleteFBO(this.multigrid?.residual);
+    if (this.scratch) {
+      this.deleteFBO(this.scratch.velocity);
+      this.deleteFBO(this.scratch.dye);
+      this.deleteFBO(this.scratch.temperature);
+    }
+    this.deleteFBO(this.bloom);
+    this.bloomFramebuffers.forEach((fbo) => this.deleteFBO(fbo));
+    this.deleteFBO(this.sunrays);
+    this.deleteFBO(this.sunraysTemp);
+
+    [
+      this.temperatureGradient,
+      this.colorGradient,
+      this.obstacles,
+      this.ditheringTexture,
+    ].forEach((target) => {
+      if (target?.texture) this.gl.deleteTexture(target.texture);
+    });
 
-    // Clean up WebGL resources
-    this.gl.getExtension("WEBGL_lose_context")?.loseContext();
+    this.buffers.forEach((buffer) => this.gl.deleteBuffer(buffer));
+    this.buffers = [];
   }
 
   private getWebGLContext(canvas: HTMLCanvasElement): WebGLContext {
@@ -691,6 +1536,7 @@ export class FluidRenderer {
         formatR,
         halfFloatTexType,
         supportLinearFiltering,
+        isWebGL2,
       },
     };
   }
@@ -767,6 +1613,7 @@ export class FluidRenderer {
     if (!shader) {
       throw new Error("Failed to create WebGL shader");
     }
+    this.shaders.push(shader);
 
     this.gl.shaderSource(shader, source);
     this.gl.compileShader(shader);
@@ -907,14 +1754,41 @@ export class FluidRenderer {
     displayKeywords.push("SHADING");
     displayKeywords.push("BLOOM");
     displayKeywords.push("SUNRAYS");
+    if (this.config.COLOR_MODE === "intensity")
+      displayKeywords.push("COLOR_LUT");
     this.displayMaterial.setKeywords(displayKeywords);
   }
 
-  private initFramebuffers() {
-    let simRes = this.getResolution(this.config.SIM_RESOLUTION);
-    let dyeRes = this.getResolution(this.config.DYE_RESOLUTION);
+  /**
+   * Scratch targets hold the backward pass of the error-correcting advection
+   * schemes and the iterate of the diffusion solver
+   */
+  private needsScratch() {
+    return (
+      this.config.ADVECTION_SCHEME !== "semi-lagrangian" ||
+      this.config.VISCOSITY > 0 ||
+      this.config.DYE_DIFFUSION > 0
+    );
+  }
+
+  /**
+   * Allocate every framebuffer, e.g. on start or when the canvas is resized
+   * @param preserveContents - Resample the dye, velocity and temperature into
+   * the new sizes; false allocates them empty, e.g. after a context restore
+   */
+  private initFramebuffers(preserveContents = true) {
+    this.gl.disable(this.gl.BLEND);
+    this.allocateDyeFramebuffers(preserveContents);
+    this.allocateSimulationFramebuffers(preserveContents);
+    this.allocateScratchFramebuffers();
+    this.allocateBloomFramebuffers();
+    this.allocateSunraysFramebuffers();
+
+    this.applyWrapMode();
+    if (this.obstacleSource) this.updateObstacleMask();
+  }
 
-    const texType = this.ext.halfFloatTexType;
+  private getTextureFormats() {
     const rgba = this.ext.formatRGBA;
     const rg = this.ext.formatRG;
     const r = this.ext.formatR;
@@ -923,13 +1797,25 @@ export class FluidRenderer {
       throw new Error("Required texture formats not supported");
     }
 
-    const filtering = this.ext.supportLinearFiltering
-      ? this.gl.LINEAR
-      : this.gl.NEAREST;
+    return {
+      texType: this.ext.halfFloatTexType,
+      rgba,
+      rg,
+      r,
+      filtering: this.ext.supportLinearFiltering
+        ? this.gl.LINEAR
+        : this.gl.NEAREST,
+    };
+  }
 
-    this.gl.disable(this.gl.BLEND);
+  /**
+   * Dye field, sized by DYE_RESOLUTION
+   */
+  private allocateDyeFramebuffers(preserveContents = true) {
+    const dyeRes = this.getResolution(this.config.DYE_RESOLUTION);
+    const { texType, rgba, filtering } = this.getTextureFormats();
 
-    if (!this.dye)
+    if (!this.dye || !preserveContents)
       this.dye = this.createDoubleFBO(
         dyeRes.width,
         dyeRes.height,
@@ -948,8 +1834,16 @@ export class FluidRenderer {
         texType,
         filtering
       );
+  }
+
+  /**
+   * Velocity, temperature and solver fields, sized by SIM_RESOLUTION
+   */
+  private allocateSimulationFramebuffers(preserveContents = true) {
+    const simRes = this.getResolution(this.config.SIM_RESOLUTION);
+    const { texType, rg, r, filtering } = this.getTextureFormats();
 
-    if (!this.velocity) {
+    if (!this.velocity || !preserveContents) {
       this.velocity = {
         ...this.createDoubleFBO(
           simRes.width,
@@ -976,6 +1870,37 @@ export class FluidRenderer {
       } as VelocityFBO;
     }
 
+    if (!this.temperature || !preserveContents)
+      this.temperature = this.createDoubleFBO(
+        simRes.width,
+        simRes.height,
+        r.internalFormat,
+        r.format,
+        texType,
+        filtering
+      );
+    else
+      this.temperature = this.resizeDoubleFBO(
+        this.temperature,
+        simRes.width,
+        simRes.height,
+        r.internalFormat,
+        r.format,
+        texType,
+        filtering
+      );
+
+    // Solver fields are recomputed every step, nothing to preserve
+    this.deleteFBO(this.divergence);
+    this.deleteFBO(this.curl);
+    this.deleteDoubleFBO(this.pressure);
+    this.multigrid?.levels.forEach((level) => {
+      this.deleteDoubleFBO(level.pressure);
+      this.deleteFBO(level.rhs);
+      this.deleteFBO(level.residual);
+    });
+    this.deleteFBO(this.multigrid?.residual);
+
     this.divergence = this.createFBO(
       simRes.width,
       simRes.height,
@@ -1001,6 +1926,77 @@ export class FluidRenderer {
       this.gl.NEAREST
     );
 
+    this.multigrid = initMultigridFramebuffers(
+      this.gl,
+      simRes.width,
+      simRes.height,
+      (w, h, internalFormat, format, type, param) =>
+        this.createFBO(w, h, internalFormat, format, type, param),
+      (w, h, internalFormat, format, type, param) =>
+        this.createDoubleFBO(w, h, internalFormat, format, type, param),
+      {
+        halfFloatTexType: texType,
+        formatR: r,
+        supportLinearFiltering: this.ext.supportLinearFiltering,
+      }
+    );
+  }
+
+  /**
+   * Scratch targets for the advection schemes and the diffusion solver,
+   * matching the dye and simulation sizes
+   */
+  private allocateScratchFramebuffers() {
+    if (this.scratch) {
+      this.deleteFBO(this.scratch.velocity);
+      this.deleteFBO(this.scratch.dye);
+      this.deleteFBO(this.scratch.temperature);
+    }
+
+    const simRes = this.getResolution(this.config.SIM_RESOLUTION);
+    const dyeRes = this.getResolution(this.config.DYE_RESOLUTION);
+    const { texType, rgba, rg, r, filtering } = this.getTextureFormats();
+
+    this.scratch = !this.needsScratch()
+      ? null
+      : {
+          velocity: this.createFBO(
+            simRes.width,
+            simRes.height,
+            rg.internalFormat,
+            rg.format,
+            texType,
+            filtering
+          ),
+          dye: this.createFBO(
+            dyeRes.width,
+            dyeRes.height,
+            rgba.internalFormat,
+            rgba.format,
+            texType,
+            filtering
+          ),
+          temperature: this.createFBO(
+            simRes.width,
+            simRes.height,
+            r.internalFormat,
+            r.format,
+            texType,
+            filtering
+          ),
+        };
+  }
+
+  /**
+   * Bloom buffers, sized by SIM_RESOLUTION, BLOOM_RESOLUTION and BLOOM_ITERATIONS
+   */
+  private allocateBloomFramebuffers() {
+    const simRes = this.getResolution(this.config.SIM_RESOLUTION);
+    const { texType, rgba, filtering } = this.getTextureFormats();
+
+    this.deleteFBO(this.bloom);
+    this.bloomFramebuffers.forEach((fbo) => this.deleteFBO(fbo));
+
     this.bloom = this.createFBO(
       simRes.width,
       simRes.height,
@@ -1027,6 +2023,16 @@ export class FluidRenderer {
         supportLinearFiltering: this.ext.supportLinearFiltering,
       }
     );
+  }
+
+  /**
+   * Sunrays buffers, sized by SUNRAYS_RESOLUTION
+   */
+  private allocateSunraysFramebuffers() {
+    const { texType, r } = this.getTextureFormats();
+
+    this.deleteFBO(this.sunrays);
+    this.deleteFBO(this.sunraysTemp);
 
     const { sunrays: newSunrays, temp: newSunraysTemp } =
       initSunraysFramebuffers(
@@ -1049,6 +2055,58 @@ export class FluidRenderer {
     this.sunraysTemp = newSunraysTemp;
   }
 
+  private deleteFBO(target?: FBO) {
+    if (!target) return;
+    this.gl.deleteTexture(target.texture);
+    this.gl.deleteFramebuffer(target.fbo);
+  }
+
+  private deleteDoubleFBO(target?: DoubleFBO) {
+    if (!target) return;
+    this.deleteFBO(target.read);
+    this.deleteFBO(target.write);
+  }
+
+  /**
+   * Periodic boundaries repeat the simulation textures so linear filtering
+   * wraps across the seam. WebGL1 cannot repeat non-power-of-two textures,
+   * so there the shaders wrap coordinates on their own.
+   */
+  private applyWrapMode() {
+    const wrap =
+      this.config.BOUNDARY_MODE === "periodic" && this.ext.isWebGL2
+        ? this.gl.REPEAT
+        : this.gl.CLAMP_TO_EDGE;
+
+    const targets = [
+      this.dye.read,
+      this.dye.write,
+      this.velocity.read,
+      this.velocity.write,
+      this.pressure.read,
+      this.pressure.write,
+      this.temperature.read,
+      this.temperature.write,
+      this.divergence,
+      this.curl,
+      this.multigrid.residual,
+      ...this.multigrid.levels.flatMap((level) => [
+        level.pressure.read,
+        level.pressure.write,
+        level.rhs,
+        level.residual,
+      ]),
+      ...(this.scratch
+        ? [this.scratch.velocity, this.scratch.dye, this.scratch.temperature]
+        : []),
+    ];
+    targets.forEach((target) => {
+      this.gl.bindTexture(this.gl.TEXTURE_2D, target.texture);
+      this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, wrap);
+      this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, wrap);
+    });
+  }
+
   private createFBO(
     w: number,
     h: number,
@@ -1134,9 +2192,11 @@ export class FluidRenderer {
     type: number,
     param: number
   ): DoubleFBO {
-    let fbo1 = this.createFBO(w, h, internalFormat, format, type, param);
-    let fbo2 = this.createFBO(w, h, internalFormat, format, type, param);
+    const fbo1 = this.createFBO(w, h, internalFormat, format, type, param);
+    const fbo2 = this.createFBO(w, h, internalFormat, format, type, param);
 
+    // Swap through the object rather than closure variables so the pair
+    // stays valid after resizeDoubleFBO replaces read and write
     return {
       width: w,
       height: h,
@@ -1146,15 +2206,15 @@ export class FluidRenderer {
       write: fbo2,
       texture: fbo1.texture,
       fbo: fbo1.fbo,
-      attach: (id: number) => fbo1.attach(id),
+      attach(id: number) {
+        return this.read.attach(id);
+      },
       swap() {
-        let temp = fbo1;
-        fbo1 = fbo2;
-        fbo2 = temp;
-        this.read = fbo1;
-        this.write = fbo2;
-        this.texture = fbo1.texture;
-        this.fbo = fbo1.fbo;
+        const temp = this.read;
+        this.read = this.write;
+        this.write = temp;
+        this.texture = this.read.texture;
+        this.fbo = this.read.fbo;
       },
     };
   }
@@ -1185,8 +2245,9 @@ export class FluidRenderer {
     param: number
   ): DoubleFBO {
     if (target.width == w && target.height == h) return target;
+    const { read, write } = target;
     target.read = this.resizeFBO(
-      target.read,
+      read,
       w,
       h,
       internalFormat,
@@ -1195,6 +2256,8 @@ export class FluidRenderer {
       param
     );
     target.write = this.createFBO(w, h, internalFormat, format, type, param);
+    this.deleteFBO(read);
+    this.deleteFBO(write);
     target.width = w;
     target.height = h;
     target.texelSizeX = 1.0 / w;
@@ -1222,6 +2285,10 @@ class Program<T extends ShaderUniforms = ShaderUniforms> {
     this.gl.useProgram(this.program);
   }
 
+  destroy() {
+    this.gl.deleteProgram(this.program);
+  }
+
   private createProgram(
     vertexShader: WebGLShader,
     fragmentShader: WebGLShader
@@ -1261,9 +2328,18 @@ class Program<T extends ShaderUniforms = ShaderUniforms> {
   }
 }
 
+/**
+ * Program whose fragment shader is compiled once per keyword set, each
+ * keyword prepended as a #define
+ */
 class Material {
   private vertexShader: WebGLShader;
-  private fragmentShader: WebGLShader;
+  private fragmentShaderSource: string;
+  private compileShader: (
+    type: number,
+    source: string,
+    keywords?: string[]
+  ) => WebGLShader;
   private programs: { [key: number]: WebGLProgram };
   private activeProgram: WebGLProgram | null;
   private gl: WebGLRenderingContext;
@@ -1272,16 +2348,25 @@ class Material {
   constructor(
     gl: WebGLRenderingContext,
     vertexShader: WebGLShader,
-    fragmentShader: WebGLShader
+    fragmentShaderSource: string,
+    compileShader: (
+      type: number,
+      source: string,
+      keywords?: string[]
+    ) => WebGLShader
   ) {
     this.gl = gl;
     this.vertexShader = vertexShader;
-    this.fragmentShader = fragmentShader;
+    this.fragmentShaderSource = fragmentShaderSource;
+    this.compileShader = compileShader;
     this.programs = {};
     this.activeProgram = null;
     this.uniforms = {};
 
-    const program = this.createProgram(this.vertexShader, this.fragmentShader);
+    const program = this.createProgram(
+      this.vertexShader,
+      this.compileShader(this.gl.FRAGMENT_SHADER, this.fragmentShaderSource)
+    );
     this.programs[0] = program;
     this.activeProgram = program;
     this.uniforms = this.getUniforms(program);
@@ -1294,7 +2379,12 @@ class Material {
 
     let program = this.programs[hash];
     if (program == null) {
-      program = this.createProgram(this.vertexShader, this.fragmentShader);
+      const fragmentShader = this.compileShader(
+        this.gl.FRAGMENT_SHADER,
+        this.fragmentShaderSource,
+        keywords
+      );
+      program = this.createProgram(this.vertexShader, fragmentShader);
       this.programs[hash] = program;
     }
 
@@ -1310,6 +2400,14 @@ class Material {
     }
   }
 
+  destroy() {
+    Object.values(this.programs).forEach((program) =>
+      this.gl.deleteProgram(program)
+    );
+    this.programs = {};
+    this.activeProgram = null;
+  }
+
   private createProgram(
     vertexShader: WebGLShader,
     fragmentShader: WebGLShader
@@ -26,53 +26,199 @@ export const CustomColors = Template.bind({});
 CustomColors.args = {
   width: 800,
   height: 600,
-  config: {
-    BACK_COLOR: { r: 0.1, g: 0.1, b: 0.15 },
-    COLOR_SCHEME: "sunset",
-  },
+  preset: "custom-colors",
 };
 
 export const HighPerformance = Template.bind({});
 HighPerformance.args = {
+  width: 800,
+  height: 600,
+  preset: "high-performance",
+};
+
+export const ArtisticEffects = Template.bind({});
+ArtisticEffects.args = {
+  width: 800,
+  height: 600,
+  preset: "artistic-effects",
+};
+
+export const Attractors = Template.bind({});
+Attractors.args = {
   width: 800,
   height: 600,
   config: {
-    SIM_RESOLUTION: 256,
-    DYE_RESOLUTION: 512,
+    COLOR_SCHEME: "red_to_blue",
+    MOTION_SOURCES: [
+      { type: "lorenz", count: 2 },
+      { type: "rossler", count: 2 },
+      { type: "clifford", count: 2 },
+      { type: "dejong", count: 2 },
+    ],
+  },
+};
+
+export const Obstacles = Template.bind({});
+Obstacles.args = {
+  width: 800,
+  height: 600,
+  config: {
+    SHOW_OBSTACLES: true,
+    OBSTACLE_BOUNDARY: "free-slip",
+  },
+  obstacles: {
+    type: "rects",
+    rects: [
+      { x: 250, y: 200, width: 300, height: 80 },
+      { x: 350, y: 360, width: 100, height: 100 },
+    ],
+  },
+};
+
+export const PeriodicTiling = Template.bind({});
+PeriodicTiling.args = {
+  width: 800,
+  height: 600,
+  config: {
+    BOUNDARY_MODE: "periodic",
+  },
+};
+
+export const Smoke = Template.bind({});
+Smoke.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: "organic",
+    DENSITY_DISSIPATION: 0.8,
+    TEMPERATURE_ENABLED: true,
+    TEMPERATURE_DISSIPATION: 0.6,
+    BUOYANCY: 20,
+    SPLAT_HEAT: 0.5,
+  },
+};
+
+export const Flame = Template.bind({});
+Flame.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: "fire",
+    BACK_COLOR: { r: 0.02, g: 0, b: 0 },
     DENSITY_DISSIPATION: 3,
-    VELOCITY_DISSIPATION: 0.8,
-    PRESSURE_ITERATIONS: 15,
-    SPLAT_RADIUS: 0.0005,
-    SPLAT_FORCE: 10000,
-    BLOOM_ITERATIONS: 8,
-    BLOOM_RESOLUTION: 256,
-    BLOOM_INTENSITY: 0.15,
-    BLOOM_THRESHOLD: 0.0,
-    BLOOM_SOFT_KNEE: 0.7,
-    SUNRAYS_RESOLUTION: 196,
-    SUNRAYS_WEIGHT: 0.1,
+    TEMPERATURE_ENABLED: true,
+    TEMPERATURE_DISSIPATION: 2,
+    BUOYANCY: 60,
+    SPLAT_HEAT: 1,
+    TEMPERATURE_COLOR_SCHEME: "fire",
+    TEMPERATURE_INTENSITY: 0.6,
   },
 };
 
-export const ArtisticEffects = Template.bind({});
-ArtisticEffects.args = {
+export const MultigridPressure = Template.bind({});
+MultigridPressure.args = {
   width: 800,
   height: 600,
   config: {
     SIM_RESOLUTION: 512,
-    DYE_RESOLUTION: 1024,
-    DENSITY_DISSIPATION: 1.5,
-    VELOCITY_DISSIPATION: 0.95,
-    PRESSURE_ITERATIONS: 25,
+    PRESSURE_SOLVER: "multigrid",
+    MULTIGRID_CYCLES: 2,
+  },
+};
+
+export const SharpAdvection = Template.bind({});
+SharpAdvection.args = {
+  width: 800,
+  height: 600,
+  config: {
+    ADVECTION_SCHEME: "bfecc",
+    DENSITY_DISSIPATION: 1,
+    CURL: 20,
+  },
+};
+
+export const Syrup = Template.bind({});
+Syrup.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: "sunset",
+    VISCOSITY: 40,
+    DYE_DIFFUSION: 0.5,
+    VELOCITY_DISSIPATION: 0.2,
+    DENSITY_DISSIPATION: 0.5,
+    SPLAT_FORCE: 3000,
+    CURL: 0,
+  },
+};
+
+export const ReducedMotion = Template.bind({});
+ReducedMotion.args = {
+  width: 800,
+  height: 600,
+  reducedMotion: true,
+  config: {
+    COLOR_SCHEME: "dusk",
+    REDUCED_MOTION_MODE: "gradient",
+  },
+};
+
+export const ShareableLink = Template.bind({});
+ShareableLink.args = {
+  width: 800,
+  height: 600,
+  syncConfigToUrl: true,
+  config: {
+    COLOR_SCHEME: "crazy",
     CURL: 0.2,
-    SPLAT_RADIUS: 0.0002,
-    SPLAT_FORCE: 6000,
-    BLOOM_ITERATIONS: 12,
-    BLOOM_RESOLUTION: 512,
-    BLOOM_INTENSITY: 0.25,
-    BLOOM_THRESHOLD: 0.1,
-    BLOOM_SOFT_KNEE: 0.9,
-    SUNRAYS_RESOLUTION: 256,
-    SUNRAYS_WEIGHT: 0.2,
+  },
+};
+
+export const InlineColorScheme = Template.bind({});
+InlineColorScheme.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: {
+      gradient: [
+        "hsl(174, 72%, 40%)",
+        "hsl(199, 89%, 48%)",
+        "hsl(262, 83%, 58%)",
+      ],
+    },
+  },
+};
+
+export const DriftingColors = Template.bind({});
+DriftingColors.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: "sunset",
+    COLOR_SAMPLING: "ping-pong",
+    COLOR_INTERPOLATION: "oklch",
+    COLOR_SAMPLING_STEP: 0.05,
+    EMITTER_COLOR_DRIFT: 0.1,
+  },
+};
+
+export const SpeedColors = Template.bind({});
+SpeedColors.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: "fire",
+    COLOR_MODE: "speed",
+    COLOR_SPEED_RANGE: 0.5,
+  },
+};
+
+export const IntensityLookup = Template.bind({});
+IntensityLookup.args = {
+  width: 800,
+  height: 600,
+  config: {
+    COLOR_SCHEME: "dusk",
+    COLOR_MODE: "intensity",
   },
 };
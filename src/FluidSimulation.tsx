@@ -1,29 +1,114 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef } from "react";
+import { DEFAULT_CONFIG } from "./configSchema";
 import { FluidRenderer } from "./FluidRenderer";
-import type { Config } from "./types";
+import { getPreset } from "./presetRegistry";
+import {
+  observeConfigInUrl,
+  readConfigFromUrl,
+  writeConfigToUrl,
+} from "./urlConfigManager";
+import type { Config, ObstacleSource, TimeSource } from "./types";
 
 export interface FluidSimulationProps {
   width?: number;
   height?: number;
   className?: string;
+  /** Name of a registered preset; `config` overrides its values */
+  preset?: string;
   config?: Partial<Config>;
+  obstacles?: ObstacleSource | null;
+  timeSource?: TimeSource;
+  /** Overrides the prefers-reduced-motion media query when set */
+  reducedMotion?: boolean;
+  /** Called when the GPU drops the WebGL context; the animation stops */
+  onContextLost?: () => void;
+  /** Called once the context is back and the simulation restarted */
+  onContextRestored?: () => void;
+  /**
+   * Load the config shared in the URL hash on mount and whenever the hash
+   * changes, and write the current config back whenever it changes
+   */
+  syncConfigToUrl?: boolean;
 }
 
 export function FluidSimulation({
   width = 800,
   height = 600,
   className = "",
-  config,
+  preset,
+  config: configOverrides,
+  obstacles = null,
+  timeSource,
+  reducedMotion,
+  onContextLost,
+  onContextRestored,
+  syncConfigToUrl = false,
 }: FluidSimulationProps): React.ReactElement {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<FluidRenderer | null>(null);
 
+  const config = useMemo(
+    () =>
+      preset ? { ...getPreset(preset), ...configOverrides } : configOverrides,
+    [preset, configOverrides]
+  );
+
+  // A shared link replaces the initial props so it reproduces the exact
+  // look; later prop changes win
+  const urlConfigRef = useRef<Partial<Config> | null | undefined>(undefined);
+  if (urlConfigRef.current === undefined) {
+    const shared = syncConfigToUrl ? readConfigFromUrl() : null;
+    urlConfigRef.current = shared ? { ...DEFAULT_CONFIG, ...shared } : null;
+  }
+
+  // The reducedMotion prop wins over the config and the shared link
+  const resolveConfig = (): Partial<Config> => {
+    const resolved = { ...config, ...urlConfigRef.current };
+    return {
+      ...resolved,
+      REDUCED_MOTION:
+        reducedMotion ??
+        resolved.REDUCED_MOTION ??
+        DEFAULT_CONFIG.REDUCED_MOTION,
+    };
+  };
+
+  // Keep the latest callbacks without recreating the renderer
+  const contextCallbacksRef = useRef({ onContextLost, onContextRestored });
+  contextCallbacksRef.current = { onContextLost, onContextRestored };
+
+  // Props the renderer config already reflects, so they are not validated
+  // twice and a rebuilt renderer keeps the shared link
+  const appliedRef = useRef<{
+    config?: Partial<Config>;
+    reducedMotion?: boolean;
+  } | null>(null);
+
+  // Hash last written here, so the component's own updates are not read back
+  const writtenHashRef = useRef<string | null>(null);
+  const writeHash = (renderer: FluidRenderer) => {
+    writeConfigToUrl(renderer.getConfig());
+    writtenHashRef.current = window.location.hash;
+  };
+
   useEffect(() => {
     if (!canvasRef.current) return;
 
     try {
-      const renderer = new FluidRenderer(canvasRef.current, config);
+      // A rebuilt renderer starts from the config of the one it replaces
+      const previous = rendererRef.current?.getConfig();
+      const renderer = new FluidRenderer(
+        canvasRef.current,
+        previous ?? resolveConfig(),
+        {
+          timeSource,
+          onContextLost: () => contextCallbacksRef.current.onContextLost?.(),
+          onContextRestored: () =>
+            contextCallbacksRef.current.onContextRestored?.(),
+        }
+      );
       rendererRef.current = renderer;
+      if (!previous) appliedRef.current = { config, reducedMotion };
 
       return () => {
         renderer.destroy();
@@ -31,16 +116,56 @@ export function FluidSimulation({
     } catch (error) {
       console.error("Failed to initialize Fluid Simulation:", error);
     }
-  }, [config]);
+    // Config changes are applied in place by the effect below
+  }, [timeSource]);
 
   useEffect(() => {
     const renderer = rendererRef.current;
     if (!renderer) return;
 
-    if (config) {
-      renderer.updateConfig(config);
+    const applied = appliedRef.current;
+    if (
+      !applied ||
+      applied.config !== config ||
+      applied.reducedMotion !== reducedMotion
+    ) {
+      renderer.updateConfig(resolveConfig());
+    }
+    appliedRef.current = { config, reducedMotion };
+    urlConfigRef.current = null;
+
+    if (syncConfigToUrl) {
+      writeHash(renderer);
     }
-  }, [config]);
+  }, [config, reducedMotion, syncConfigToUrl]);
+
+  useEffect(() => {
+    if (!syncConfigToUrl) return;
+
+    return observeConfigInUrl((shared) => {
+      const renderer = rendererRef.current;
+      if (!renderer || window.location.hash === writtenHashRef.current) return;
+
+      renderer.updateConfig({
+        ...DEFAULT_CONFIG,
+        ...shared,
+        REDUCED_MOTION:
+          reducedMotion ??
+          shared.REDUCED_MOTION ??
+          DEFAULT_CONFIG.REDUCED_MOTION,
+      });
+      writeHash(renderer);
+    });
+  }, [syncConfigToUrl, reducedMotion]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+
+    renderer.setObstacles(obstacles).catch((error) => {
+      console.error("Failed to set Fluid Simulation obstacles:", error);
+    });
+  }, [obstacles, timeSource]);
 
   return (
     <div className={`fluid-simulation-container ${className}`}>
@@ -0,0 +1,331 @@
+import { MotionSource, MotionState } from './types';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Base class for attractor emitters. Subclasses provide the dynamics and a
+ * projection of their state onto the canvas plane, centered on 0 with a
+ * range of roughly -0.5 to 0.5 before `scale` is applied.
+ */
+abstract class StrangeAttractor implements MotionSource {
+    protected scale: number;
+    protected speed: number;
+    protected index: number;
+    protected totalEmitters: number;
+    private lastX: number = 0;
+    private lastY: number = 0;
+    private started: boolean = false;
+
+    constructor(params: { scale?: number; speed?: number; index?: number; total?: number }) {
+        this.scale = params.scale ?? 1;
+        this.speed = params.speed ?? 1;
+        this.index = params.index ?? 0;
+        this.totalEmitters = params.total ?? 1;
+    }
+
+    public update(dt: number): MotionState {
+        // Started on first use so sources built only to retune others skip the warm-up
+        if (!this.started) this.reset();
+        this.advance(dt * this.speed);
+        const [px, py] = this.project();
+        const x = px * this.scale;
+        const y = py * this.scale;
+        const dx = dt > 0 ? (x - this.lastX) / dt : 0;
+        const dy = dt > 0 ? (y - this.lastY) / dt : 0;
+        this.lastX = x;
+        this.lastY = y;
+        return { x, y, dx, dy };
+    }
+
+    public retune(next: StrangeAttractor): void {
+        this.scale = next.scale;
+        this.speed = next.speed;
+        this.index = next.index;
+        this.totalEmitters = next.totalEmitters;
+    }
+
+    public reset(): void {
+        this.started = true;
+        this.restart();
+        const [px, py] = this.project();
+        this.lastX = px * this.scale;
+        this.lastY = py * this.scale;
+    }
+
+    /**
+     * Small per-emitter perturbation so emitters sharing parameters diverge
+     */
+    protected seedOffset(): number {
+        return (this.index / Math.max(this.totalEmitters, 1)) * 0.1;
+    }
+
+    protected abstract advance(time: number): void;
+    protected abstract project(): [number, number];
+    protected abstract restart(): void;
+}
+
+/**
+ * Continuous attractor integrated with fixed-size RK4 substeps
+ */
+abstract class FlowAttractor extends StrangeAttractor {
+    private static readonly MAX_STEP = 0.005;
+    protected state: Vec3 = [0, 0, 0];
+
+    protected advance(time: number): void {
+        const steps = Math.max(1, Math.ceil(time / FlowAttractor.MAX_STEP));
+        const h = time / steps;
+        for (let i = 0; i < steps; i++) {
+            this.state = this.rk4(this.state, h);
+        }
+    }
+
+    private rk4(s: Vec3, h: number): Vec3 {
+        const add = (a: Vec3, b: Vec3, k: number): Vec3 => [a[0] + b[0] * k, a[1] + b[1] * k, a[2] + b[2] * k];
+        const k1 = this.derivative(s);
+        const k2 = this.derivative(add(s, k1, h / 2));
+        const k3 = this.derivative(add(s, k2, h / 2));
+        const k4 = this.derivative(add(s, k3, h));
+        return [
+            s[0] + (h / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]),
+            s[1] + (h / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]),
+            s[2] + (h / 6) * (k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2])
+        ];
+    }
+
+    protected abstract derivative(s: Vec3): Vec3;
+}
+
+/**
+ * Iterated 2D map. Emitters glide between successive iterates at `speed`
+ * iterations per second so splats do not jump across the canvas.
+ */
+abstract class MapAttractor extends StrangeAttractor {
+    protected prev: [number, number] = [0, 0];
+    protected next: [number, number] = [0, 0];
+    private progress: number = 0;
+
+    protected advance(time: number): void {
+        this.progress += time;
+        while (this.progress >= 1) {
+            this.progress -= 1;
+            this.prev = this.next;
+            this.next = this.iterate(this.next);
+        }
+    }
+
+    protected current(): [number, number] {
+        const t = this.progress;
+        return [
+            this.prev[0] + (this.next[0] - this.prev[0]) * t,
+            this.prev[1] + (this.next[1] - this.prev[1]) * t
+        ];
+    }
+
+    protected restart(): void {
+        const offset = this.seedOffset();
+        this.prev = [0.1 + offset, 0.1 - offset];
+        // Skip the transient so emitters start on the attractor
+        for (let i = 0; i < 100; i++) {
+            this.prev = this.iterate(this.prev);
+        }
+        this.next = this.iterate(this.prev);
+        this.progress = 0;
+    }
+
+    protected abstract iterate(p: [number, number]): [number, number];
+}
+
+export class LorenzAttractor extends FlowAttractor {
+    private sigma: number;  // Prandtl number
+    private rho: number;    // Rayleigh number
+    private beta: number;   // geometric factor
+
+    constructor(
+        params: {
+            sigma?: number,
+            rho?: number,
+            beta?: number,
+            scale?: number,  // projection scale
+            speed?: number,  // time multiplier
+            index?: number,
+            total?: number
+        } = {}
+    ) {
+        super(params);
+        this.sigma = params.sigma ?? 10;
+        this.rho = params.rho ?? 28;
+        this.beta = params.beta ?? 8 / 3;
+    }
+
+    public retune(next: LorenzAttractor): void {
+        super.retune(next);
+        this.sigma = next.sigma;
+        this.rho = next.rho;
+        this.beta = next.beta;
+    }
+
+    protected derivative([x, y, z]: Vec3): Vec3 {
+        return [
+            this.sigma * (y - x),
+            x * (this.rho - z) - y,
+            x * y - this.beta * z
+        ];
+    }
+
+    protected project(): [number, number] {
+        // Butterfly view: x against z, centered on the wings
+        const [x, , z] = this.state;
+        return [x / 50, (z - this.rho + 3) / 50];
+    }
+
+    protected restart(): void {
+        const offset = this.seedOffset();
+        this.state = [1 + offset, 1, 1 + offset];
+    }
+}
+
+export class RosslerAttractor extends FlowAttractor {
+    private a: number;
+    private b: number;
+    private c: number;
+
+    constructor(
+        params: {
+            a?: number,
+            b?: number,
+            c?: number,
+            scale?: number,  // projection scale
+            speed?: number,  // time multiplier
+            index?: number,
+            total?: number
+        } = {}
+    ) {
+        super(params);
+        this.a = params.a ?? 0.2;
+        this.b = params.b ?? 0.2;
+        this.c = params.c ?? 5.7;
+    }
+
+    public retune(next: RosslerAttractor): void {
+        super.retune(next);
+        this.a = next.a;
+        this.b = next.b;
+        this.c = next.c;
+    }
+
+    protected derivative([x, y, z]: Vec3): Vec3 {
+        return [
+            -y - z,
+            x + this.a * y,
+            this.b + z * (x - this.c)
+        ];
+    }
+
+    protected project(): [number, number] {
+        // Top-down view of the spiral in the x-y plane
+        const [x, y] = this.state;
+        return [(x - 1) / 25, (y + 1) / 25];
+    }
+
+    protected restart(): void {
+        const offset = this.seedOffset();
+        this.state = [1 + offset, 1 - offset, 0];
+    }
+}
+
+export class CliffordAttractor extends MapAttractor {
+    private a: number;
+    private b: number;
+    private c: number;
+    private d: number;
+
+    constructor(
+        params: {
+            a?: number,
+            b?: number,
+            c?: number,
+            d?: number,
+            scale?: number,  // projection scale
+            speed?: number,  // iterations per second
+            index?: number,
+            total?: number
+        } = {}
+    ) {
+        super(params);
+        this.a = params.a ?? -1.4;
+        this.b = params.b ?? 1.6;
+        this.c = params.c ?? 1.0;
+        this.d = params.d ?? 0.7;
+    }
+
+    public retune(next: CliffordAttractor): void {
+        super.retune(next);
+        this.a = next.a;
+        this.b = next.b;
+        this.c = next.c;
+        this.d = next.d;
+    }
+
+    protected iterate([x, y]: [number, number]): [number, number] {
+        return [
+            Math.sin(this.a * y) + this.c * Math.cos(this.a * x),
+            Math.sin(this.b * x) + this.d * Math.cos(this.b * y)
+        ];
+    }
+
+    protected project(): [number, number] {
+        // The map stays within ±(1 + |c|) by ±(1 + |d|)
+        const [x, y] = this.current();
+        return [
+            (x / (1 + Math.abs(this.c))) * 0.4,
+            (y / (1 + Math.abs(this.d))) * 0.4
+        ];
+    }
+}
+
+export class DeJongAttractor extends MapAttractor {
+    private a: number;
+    private b: number;
+    private c: number;
+    private d: number;
+
+    constructor(
+        params: {
+            a?: number,
+            b?: number,
+            c?: number,
+            d?: number,
+            scale?: number,  // projection scale
+            speed?: number,  // iterations per second
+            index?: number,
+            total?: number
+        } = {}
+    ) {
+        super(params);
+        this.a = params.a ?? 1.4;
+        this.b = params.b ?? -2.3;
+        this.c = params.c ?? 2.4;
+        this.d = params.d ?? -2.1;
+    }
+
+    public retune(next: DeJongAttractor): void {
+        super.retune(next);
+        this.a = next.a;
+        this.b = next.b;
+        this.c = next.c;
+        this.d = next.d;
+    }
+
+    protected iterate([x, y]: [number, number]): [number, number] {
+        return [
+            Math.sin(this.a * y) - Math.cos(this.b * x),
+            Math.sin(this.c * x) - Math.cos(this.d * y)
+        ];
+    }
+
+    protected project(): [number, number] {
+        // The map stays within ±2 on both axes
+        const [x, y] = this.current();
+        return [x * 0.2, y * 0.2];
+    }
+}
@@ -8,9 +8,6 @@ import {
 } from './shaders';
 import { BaseFBO, BloomConfig, BloomPrograms } from './types';
 
-// Internal state - only tracking framebuffers
-let bloomFramebuffers: BaseFBO[] = [];
-
 /**
  * Initialize bloom shaders
  * @param gl - WebGL context
@@ -44,6 +41,7 @@ export const initBloomShaders = (
  * @param createFBO - Function to create framebuffer object
  * @param getResolution - Function to get resolution
  * @param ext - WebGL extensions
+ * @returns Mip chain owned by the caller and passed to applyBloom
  */
 export const initBloomFramebuffers = (
     gl: WebGLRenderingContext,
@@ -65,8 +63,7 @@ export const initBloomFramebuffers = (
         filtering
     );
 
-    // Reset framebuffers array
-    bloomFramebuffers = [];
+    const bloomFramebuffers: BaseFBO[] = [];
 
     // Create mip chain
     for (let i = 0; i < config.iterations; i++) {
@@ -95,6 +92,7 @@ export const initBloomFramebuffers = (
  * @param config - Bloom configuration from script.js
  * @param source - Source framebuffer
  * @param destination - Destination framebuffer
+ * @param bloomFramebuffers - Mip chain from initBloomFramebuffers
  * @param blit - Blit function
  * @param programs - Bloom-related shader programs
  */
@@ -103,6 +101,7 @@ export const applyBloom = (
     config: BloomConfig,
     source: BaseFBO,
     destination: BaseFBO,
+    bloomFramebuffers: BaseFBO[],
     blit: (target: BaseFBO | null) => void,
     programs: BloomPrograms
 ): void => {
@@ -154,10 +153,3 @@ export const applyBloom = (
     gl.uniform1f(programs.bloomFinal.uniforms.intensity, config.intensity);
     blit(destination);
 };
-
-/**
- * Get current bloom framebuffers
- */
-export const getBloomFramebuffers = (): BaseFBO[] => {
-    return [...bloomFramebuffers];
-}; 
\ No newline at end of file
@@ -1,5 +1,3 @@
-export type ColorConfiguration = keyof typeof colorConfigurations;
-
 export const colorConfigurations = {
   default: {
     gradient: [
@@ -116,4 +114,30 @@ export const colorConfigurations = {
       "hsl(282, 60%, 40%)", // Cotinga purple
     ]
   }
-}; 
\ No newline at end of file
+}; 
+
+export type BuiltInColorScheme = keyof typeof colorConfigurations;
+
+/**
+ * Names of schemes added with registerColorScheme. Augment this interface so
+ * the names type-check in `Config.COLOR_SCHEME`:
+ *
+ * declare module "./colorConfigurations" {
+ *   interface CustomColorSchemes { campaign: true }
+ * }
+ */
+export interface CustomColorSchemes {}
+
+export type ColorSchemeName = BuiltInColorScheme | Extract<keyof CustomColorSchemes, string>;
+
+/**
+ * Gradient stops as CSS color strings, evenly spaced
+ */
+export interface ColorSchemeDefinition {
+  gradient: string[];
+}
+
+/**
+ * A registered scheme name or an inline gradient
+ */
+export type ColorConfiguration = ColorSchemeName | ColorSchemeDefinition;
\ No newline at end of file
@@ -1,71 +1,23 @@
 // Color management utilities using functional programming
-import { ColorConfiguration, colorConfigurations } from './colorConfigurations';
+import { ColorConfiguration, colorConfigurations, ColorSchemeDefinition } from './colorConfigurations';
+import { linearRgbToOklab, linearToSrgb, oklabToLinearRgb, parseColor } from './colorParser';
 import { colorShader as colorShaderSource } from './shaders';
-import { FBO, HSLAColor, Program, RGBColor } from './types';
+import { ColorContext, ColorInterpolation, FBO, GradientTexture, OklabColor, Program, RGBColor } from './types';
 
-// Internal state for color management
-let currentScheme: ColorConfiguration = 'default';
-let currentColors: RGBColor[] = [];
-let currentColorIndex: number = 0;
+// Registered color schemes, starting with the built-in gradients. No
+// prototype, so names such as "constructor" are not found.
+const colorSchemes: Record<string, ColorSchemeDefinition> = Object.assign(Object.create(null), colorConfigurations);
 
 /**
- * Parse HSLA color string into HSLAColor object
- * @param hslaStr - HSLA color string (e.g., "hsla(360, 100%, 50%, 1)" or "hsl(360deg, 100%, 50%)")
- */
-const parseHSLA = (hslaStr: string): HSLAColor => {
-    // Handle both hsl and hsla, with optional deg suffix and flexible spacing
-    const matches = hslaStr.match(/hsla?\((\d+)(?:deg)?\s*,?\s*(\d+)%?\s*,?\s*(\d+)%?\s*,?\s*(\d*\.?\d*)?\)/);
-    if (!matches) {
-        throw new Error(`Invalid HSLA string: ${hslaStr}`);
-    }
-    return {
-        h: parseInt(matches[1], 10),
-        s: parseInt(matches[2], 10),
-        l: parseInt(matches[3], 10),
-        a: matches[4] ? parseFloat(matches[4]) : 1
-    };
-};
-
-/**
- * Convert HSLA to RGB color
- * @param hsla - HSLA color object or string
- */
-const HSLAtoRGB = (hsla: HSLAColor | string): RGBColor => {
-    const color = typeof hsla === 'string' ? parseHSLA(hsla) : hsla;
-    const h = color.h / 360;
-    const s = color.s / 100;
-    const l = color.l / 100;
-
-    let r: number, g: number, b: number;
-
-    if (s === 0) {
-        r = g = b = l;
-    } else {
-        const hue2rgb = (p: number, q: number, t: number): number => {
-            if (t < 0) t += 1;
-            if (t > 1) t -= 1;
-            if (t < 1/6) return p + (q - p) * 6 * t;
-            if (t < 1/2) return q;
-            if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-            return p;
-        };
-
-        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-        const p = 2 * l - q;
-        r = hue2rgb(p, q, h + 1/3);
-        g = hue2rgb(p, q, h);
-        b = hue2rgb(p, q, h - 1/3);
-    }
-
-    return { r, g, b };
-};
-
-/**
- * Convert a gradient array of HSLA strings to RGB colors
- * @param gradient - Array of HSLA color strings
+ * Convert a gradient of CSS color strings to linear RGB. Alpha scales the
+ * color, so translucent stops add less dye.
+ * @param gradient - Array of CSS color strings
  */
 const gradientToRGB = (gradient: string[]): RGBColor[] => {
-    return gradient.map(HSLAtoRGB);
+    return gradient.map((entry) => {
+        const { r, g, b, a } = parseColor(entry);
+        return { r: r * a, g: g * a, b: b * a };
+    });
 };
 
 /**
@@ -96,33 +48,298 @@ const HSVtoRGB = (h: number, s: number, v: number): RGBColor => {
     return { r, g, b };
 };
 
+/**
+ * Describe what is wrong with a color scheme name or inline gradient
+ * @param scheme - Value of `COLOR_SCHEME` or a definition to register
+ * @returns null when the scheme can be used
+ */
+export const getColorSchemeProblem = (scheme: unknown): string | null => {
+    if (typeof scheme === 'string') {
+        return colorSchemes[scheme] ? null : `color scheme "${scheme}" not found`;
+    }
+    const gradient = (scheme as Partial<ColorSchemeDefinition> | null)?.gradient;
+    if (!Array.isArray(gradient) || gradient.length === 0) {
+        return 'a color scheme needs a non-empty gradient array';
+    }
+    for (let i = 0; i < gradient.length; i++) {
+        if (typeof gradient[i] !== 'string') {
+            return `gradient[${i}] ${JSON.stringify(gradient[i])} is not a color string`;
+        }
+        try {
+            parseColor(gradient[i]);
+        } catch (error) {
+            return `gradient[${i}]: ${error instanceof Error ? error.message : error}`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Register a color scheme usable by name in `COLOR_SCHEME`. Add the name to
+ * CustomColorSchemes to make it type-check.
+ * @param name - Name of the scheme; registering a taken name replaces it
+ * @param definition - Gradient stops as color strings
+ */
+export const registerColorScheme = (name: string, definition: ColorSchemeDefinition): void => {
+    if (typeof name !== 'string' || name.length === 0) {
+        throw new Error('Color scheme names must be non-empty strings');
+    }
+    const problem = getColorSchemeProblem(definition);
+    if (problem) {
+        throw new Error(`Invalid color scheme "${name}": ${problem}`);
+    }
+    if (colorSchemes[name]) {
+        console.warn(`Color scheme "${name}" is already registered, replacing it`);
+    }
+    colorSchemes[name] = { gradient: [...definition.gradient] };
+};
+
+/**
+ * List the registered color scheme names
+ */
+export const listColorSchemes = (): string[] => {
+    return Object.keys(colorSchemes);
+};
+
+/**
+ * Replace the name of a scheme registered at runtime with its gradient, so a
+ * saved or shared config shows the same colors on pages that lack it
+ * @param scheme - Name of the color scheme or an inline gradient
+ * @returns Built-in names and inline gradients unchanged
+ */
+export const inlineColorScheme = (scheme: ColorConfiguration): ColorConfiguration => {
+    if (typeof scheme !== 'string' || !colorSchemes[scheme]) return scheme;
+    const builtIn: Record<string, ColorSchemeDefinition> = colorConfigurations;
+    if (colorSchemes[scheme] === builtIn[scheme]) return scheme;
+    return { gradient: [...colorSchemes[scheme].gradient] };
+};
+
+/**
+ * Resolve a scheme name or inline gradient to its stops
+ */
+const getSchemeGradient = (scheme: ColorConfiguration): string[] => {
+    const problem = getColorSchemeProblem(scheme);
+    if (problem) {
+        console.warn(`Invalid color scheme: ${problem}, falling back to default`);
+        return colorSchemes.default.gradient;
+    }
+    return typeof scheme === 'string' ? colorSchemes[scheme].gradient : scheme.gradient;
+};
+
+/**
+ * Get the RGB colors of a scheme without making it the current scheme
+ * @param scheme - Name of the color scheme or an inline gradient
+ */
+export const getSchemeColors = (scheme: ColorConfiguration): RGBColor[] => {
+    return gradientToRGB(getSchemeGradient(scheme));
+};
+
+/**
+ * Create the color state of one renderer
+ * @param scheme - Name of the initial color scheme or an inline gradient
+ */
+export const createColorContext = (scheme: ColorConfiguration = 'default'): ColorContext => {
+    const context: ColorContext = {
+        scheme,
+        colors: [],
+        index: 0,
+        sampling: 'stops',
+        interpolation: 'oklab',
+        step: 0.1,
+        period: 10,
+        position: 0,
+        direction: 1,
+        time: 0,
+        random: Math.random
+    };
+    setColorScheme(context, scheme);
+    return context;
+};
+
 /**
  * Set the current color scheme and return the RGB colors
- * @param scheme - Name of the color scheme to use
+ * @param context - Color state to update
+ * @param scheme - Name of the color scheme to use or an inline gradient
  * @returns Array of RGB colors for the scheme
  */
-export const setColorScheme = (scheme: ColorConfiguration = 'default'): RGBColor[] => {
-    if (!colorConfigurations[scheme]) {
-        console.warn(`Color scheme "${scheme}" not found, falling back to default`);
-        scheme = 'default';
+export const setColorScheme = (context: ColorContext, scheme: ColorConfiguration = 'default'): RGBColor[] => {
+    context.scheme = scheme;
+    context.colors = getSchemeColors(scheme);
+    context.index = 0; // Reset the index when changing schemes
+    return context.colors;
+};
+
+/**
+ * Replace the colors handed out by getRandomColor without changing the
+ * scheme, e.g. with a blend of two schemes during a transition
+ * @param context - Color state to update
+ * @param colors - Colors to hand out in sequence
+ */
+export const setCurrentColors = (context: ColorContext, colors: RGBColor[]): void => {
+    if (colors.length === 0) return;
+    context.colors = colors;
+    context.index = context.index % colors.length;
+};
+
+/**
+ * Set how getRandomColor picks colors from the gradient
+ * @param context - Color state to update
+ * @param sampling - Sampling mode, interpolation space, step, period and random source to change
+ */
+export const setColorSampling = (
+    context: ColorContext,
+    sampling: Partial<Pick<ColorContext, 'sampling' | 'interpolation' | 'step' | 'period' | 'random'>>
+): void => {
+    Object.assign(context, sampling);
+};
+
+const mixHue = (from: number, to: number, t: number): number => {
+    const delta = ((to - from + 3 * Math.PI) % (2 * Math.PI)) - Math.PI; // Shortest way around
+    return from + delta * t;
+};
+
+/**
+ * Mix two OKLab colors, blending hue around the color wheel in 'oklch'
+ */
+const mixOklab = (from: OklabColor, to: OklabColor, t: number, interpolation: ColorInterpolation): OklabColor => {
+    const l = from.l + (to.l - from.l) * t;
+    if (interpolation === 'oklab') {
+        return { l, a: from.a + (to.a - from.a) * t, b: from.b + (to.b - from.b) * t };
     }
-    currentScheme = scheme;
-    currentColors = colorConfigurations[scheme].gradient.map(HSLAtoRGB);
-    currentColorIndex = 0; // Reset the index when changing schemes
-    return currentColors;
+
+    const fromChroma = Math.hypot(from.a, from.b);
+    const toChroma = Math.hypot(to.a, to.b);
+    // Grays have no hue of their own and take the other end's
+    const fromHue = fromChroma < 1e-4 ? Math.atan2(to.b, to.a) : Math.atan2(from.b, from.a);
+    const toHue = toChroma < 1e-4 ? fromHue : Math.atan2(to.b, to.a);
+    const chroma = fromChroma + (toChroma - fromChroma) * t;
+    const hue = mixHue(fromHue, toHue, t);
+    return { l, a: chroma * Math.cos(hue), b: chroma * Math.sin(hue) };
+};
+
+/**
+ * Sample a gradient anywhere between its stops, interpolating perceptually
+ * @param colors - Gradient stops in linear RGB, evenly spaced
+ * @param t - Position along the gradient, 0 to 1
+ * @param interpolation - Color space to interpolate in
+ * @returns RGB color object
+ */
+export const sampleGradient = (
+    colors: RGBColor[],
+    t: number,
+    interpolation: ColorInterpolation = 'oklab'
+): RGBColor => {
+    if (colors.length === 0) return { r: 0, g: 0, b: 0 };
+
+    const scaled = Math.min(Math.max(t, 0), 1) * (colors.length - 1);
+    const index = Math.min(Math.floor(scaled), colors.length - 2);
+    if (index < 0) return { ...colors[0] };
+
+    const from = linearRgbToOklab(colors[index]);
+    const to = linearRgbToOklab(colors[index + 1]);
+    return oklabToLinearRgb(mixOklab(from, to, scaled - index, interpolation));
 };
 
 /**
- * Get the next color from the current color scheme in sequence
+ * Get the next splat color. In 'stops' mode this steps through the gradient
+ * stops; the other modes sample the gradient continuously at a position that
+ * advances by `step`, bounces between the ends, is random or follows the time.
+ * @param context - Color state to read and advance
  * @returns RGB color object
  */
-export const getRandomColor = (): RGBColor => {
-    if (currentColors.length === 0) {
-        setColorScheme(currentScheme);
+export const getRandomColor = (context: ColorContext): RGBColor => {
+    if (context.colors.length === 0) {
+        setColorScheme(context, context.scheme);
     }
-    const color = currentColors[currentColorIndex];
-    currentColorIndex = (currentColorIndex + 1) % currentColors.length;
-    return color;
+
+    switch (context.sampling) {
+        case 'sequential':
+            context.position = (context.position + context.step) % 1;
+            break;
+        case 'random':
+            context.position = context.random();
+            break;
+        case 'ping-pong': {
+            const position = context.position + context.step * context.direction;
+            if (position > 1 || position < 0) {
+                context.direction = context.direction === 1 ? -1 : 1;
+            }
+            context.position = position > 1 ? 2 - position : Math.abs(position);
+            break;
+        }
+        case 'time':
+            context.position = (context.time / context.period) % 1;
+            break;
+        default: {
+            const color = context.colors[context.index];
+            context.index = (context.index + 1) % context.colors.length;
+            return color;
+        }
+    }
+    return sampleGradient(context.colors, context.position, context.interpolation);
+};
+
+/**
+ * Fill a gradient texture with the same colors sampleGradient picks. Texels
+ * hold sRGB encoded values so the darks do not band in 8 bits; shaders
+ * decode them with gammaToLinear.
+ * @param gl - WebGL context
+ * @param gradient - Texture to fill
+ * @param colors - Gradient stops in linear RGB, evenly spaced
+ * @param interpolation - Color space to interpolate in
+ */
+export const updateGradientTexture = (
+    gl: WebGLRenderingContext,
+    gradient: GradientTexture,
+    colors: RGBColor[],
+    interpolation: ColorInterpolation = 'oklab'
+): void => {
+    const data = new Uint8Array(gradient.width * 4);
+    for (let i = 0; i < gradient.width; i++) {
+        const { r, g, b } = sampleGradient(colors, i / (gradient.width - 1), interpolation);
+        data[i * 4] = Math.round(linearToSrgb(r) * 255);
+        data[i * 4 + 1] = Math.round(linearToSrgb(g) * 255);
+        data[i * 4 + 2] = Math.round(linearToSrgb(b) * 255);
+        data[i * 4 + 3] = 255;
+    }
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, gradient.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gradient.width, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+};
+
+/**
+ * Create a lookup texture for a color gradient
+ * @param gl - WebGL context
+ * @param colors - Gradient stops in linear RGB, evenly spaced
+ * @param size - Number of texels in the lookup table
+ * @param interpolation - Color space to interpolate in
+ */
+export const createGradientTexture = (
+    gl: WebGLRenderingContext,
+    colors: RGBColor[],
+    size: number = 256,
+    interpolation: ColorInterpolation = 'oklab'
+): GradientTexture => {
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const gradient: GradientTexture = {
+        texture,
+        width: size,
+        height: 1,
+        attach: (id: number) => {
+            gl.activeTexture(gl.TEXTURE0 + id);
+            gl.bindTexture(gl.TEXTURE_2D, texture);
+            return id;
+        }
+    };
+    updateGradientTexture(gl, gradient, colors, interpolation);
+    return gradient;
 };
 
 /**
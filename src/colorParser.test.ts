@@ -0,0 +1,154 @@
+import {
+  linearRgbToOklab,
+  linearToSrgb,
+  oklabToLinearRgb,
+  parseColor,
+} from "./colorParser";
+
+// sRGB decoding as specified, to check against
+const srgbToLinear = (c: number) =>
+  c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+
+const GRAY = srgbToLinear(0.5);
+
+const expectColor = (
+  input: string,
+  [r, g, b, a = 1]: number[],
+  precision = 4
+) => {
+  const color = parseColor(input);
+  expect(color.r).toBeCloseTo(r, precision);
+  expect(color.g).toBeCloseTo(g, precision);
+  expect(color.b).toBeCloseTo(b, precision);
+  expect(color.a).toBeCloseTo(a, precision);
+};
+
+describe("parseColor", () => {
+  it("parses hex colors of every length", () => {
+    expectColor("#f00", [1, 0, 0]);
+    expectColor("#0f08", [0, 1, 0, 0x88 / 255]);
+    expectColor("#0000ff", [0, 0, 1]);
+    expectColor("#ffffff80", [1, 1, 1, 128 / 255]);
+  });
+
+  it("returns linear light", () => {
+    expectColor("#808080", [
+      srgbToLinear(128 / 255),
+      srgbToLinear(128 / 255),
+      srgbToLinear(128 / 255),
+    ]);
+    expect(parseColor("#808080").r).toBeLessThan(0.25);
+  });
+
+  it("parses named colors and transparent", () => {
+    expectColor("red", [1, 0, 0]);
+    expectColor("rebeccapurple", [
+      srgbToLinear(0x66 / 255),
+      srgbToLinear(0x33 / 255),
+      srgbToLinear(0x99 / 255),
+    ]);
+    expectColor("transparent", [0, 0, 0, 0]);
+  });
+
+  it("ignores case and surrounding whitespace", () => {
+    expectColor("  RED ", [1, 0, 0]);
+    expectColor("#FF0000", [1, 0, 0]);
+    expectColor("RGB(255 0 0)", [1, 0, 0]);
+  });
+
+  it("parses modern and legacy rgb()", () => {
+    expectColor("rgb(255 0 0)", [1, 0, 0]);
+    expectColor("rgb(100% 0% 0% / 50%)", [1, 0, 0, 0.5]);
+    expectColor("rgba(255, 0, 0, 0.5)", [1, 0, 0, 0.5]);
+    expectColor("rgb(0, 255, 0)", [0, 1, 0]);
+    expectColor("rgb(none 255 0)", [0, 1, 0]);
+  });
+
+  it("parses hsl() and hwb() with any angle unit", () => {
+    expectColor("hsl(120 100% 50%)", [0, 1, 0]);
+    expectColor("hsl(120deg, 100%, 50%)", [0, 1, 0]);
+    expectColor("hsla(0.5turn 100% 50% / 0.25)", [0, 1, 1, 0.25]);
+    expectColor(`hsl(${Math.PI}rad 100 50)`, [0, 1, 1]);
+    expectColor("hsl(400grad 100% 50%)", [1, 0, 0]);
+    expectColor("hwb(0 0% 0%)", [1, 0, 0]);
+    expectColor("hwb(0 50% 50%)", [GRAY, GRAY, GRAY]);
+  });
+
+  it("parses lab(), lch(), oklab() and oklch()", () => {
+    expectColor("lab(100 0 0)", [1, 1, 1], 2);
+    expectColor("lch(0% 0 0)", [0, 0, 0], 2);
+    expectColor("oklab(1 0 0)", [1, 1, 1], 3);
+    expectColor("oklch(0 0 0 / 50%)", [0, 0, 0, 0.5]);
+    expectColor("oklch(62.8% 0.2577 29.23)", [1, 0, 0], 2);
+  });
+
+  it("parses color() in the predefined color spaces", () => {
+    expectColor("color(srgb 1 0 0)", [1, 0, 0]);
+    expectColor("color(srgb-linear 0.5 0.5 0.5)", [0.5, 0.5, 0.5]);
+    expectColor("color(xyz-d65 0.9505 1 1.089)", [1, 1, 1], 2);
+    expectColor("color(display-p3 1 1 1)", [1, 1, 1], 3);
+  });
+
+  it("clips colors outside the sRGB gamut", () => {
+    expectColor("color(display-p3 0 1 0)", [0, 1, 0], 1);
+    const color = parseColor("color(rec2020 0 1 0)");
+    [color.r, color.g, color.b].forEach((channel) => {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it.each([
+    ["#12", /3, 4, 6 or 8 hex digits/],
+    ["#ggg", /3, 4, 6 or 8 hex digits/],
+    ["notacolor", /expected a hex color/],
+    ["constructor", /expected a hex color/],
+    ["toString", /expected a hex color/],
+    ["rgb(1 2)", /needs 3 channels, got 2/],
+    ["rgb(1, 2)", /needs 3 channels and an optional alpha/],
+    ["oklch(0.5, 0.1, 20)", /does not accept commas/],
+    ["rgb(1 2 3 / 0.5 / 1)", /single "\/"/],
+    ["rgb(1 2 3 /)", /single "\/"/],
+    ["rgb(a 2 3)", /"a" is not a number/],
+    ["hsl(10% 50% 50%)", /cannot be a percentage/],
+    ["rgb(10deg 0 0)", /cannot have an angle unit/],
+    ["color(foo 1 1 1)", /unknown color space "foo"/],
+    ["color(constructor 1 1 1)", /unknown color space "constructor"/],
+    ["color(srgb 1 1)", /needs 3 channels/],
+    ["cmyk(0 0 0 0)", /unknown color function cmyk\(\)/],
+  ])("rejects %s", (input, message) => {
+    expect(() => parseColor(input)).toThrow(`Invalid color "${input}"`);
+    expect(() => parseColor(input)).toThrow(message);
+  });
+});
+
+describe("transfer functions", () => {
+  it("inverts sRGB decoding", () => {
+    [0, 0.002, 0.04, 0.2, 0.5, 1].forEach((value) => {
+      expect(srgbToLinear(linearToSrgb(value))).toBeCloseTo(value, 6);
+    });
+  });
+
+  it("mirrors negative values", () => {
+    expect(linearToSrgb(-0.5)).toBeCloseTo(-linearToSrgb(0.5), 6);
+  });
+});
+
+describe("OKLab conversion", () => {
+  it("round-trips linear RGB", () => {
+    const color = { r: 0.8, g: 0.3, b: 0.05 };
+    const back = oklabToLinearRgb(linearRgbToOklab(color));
+
+    expect(back.r).toBeCloseTo(color.r, 5);
+    expect(back.g).toBeCloseTo(color.g, 5);
+    expect(back.b).toBeCloseTo(color.b, 5);
+  });
+
+  it("maps white to lightness 1 without chroma", () => {
+    const { l, a, b } = linearRgbToOklab({ r: 1, g: 1, b: 1 });
+
+    expect(l).toBeCloseTo(1, 3);
+    expect(a).toBeCloseTo(0, 3);
+    expect(b).toBeCloseTo(0, 3);
+  });
+});
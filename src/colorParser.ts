@@ -0,0 +1,375 @@
+// CSS color parsing utilities using functional programming
+import { OklabColor, RGBAColor, RGBColor } from './types';
+
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+/**
+ * CSS named colors as 0xRRGGBB
+ */
+const NAMED_COLORS: Record<string, number> = {
+    aliceblue: 0xf0f8ff, antiquewhite: 0xfaebd7, aqua: 0x00ffff, aquamarine: 0x7fffd4, azure: 0xf0ffff,
+    beige: 0xf5f5dc, bisque: 0xffe4c4, black: 0x000000, blanchedalmond: 0xffebcd, blue: 0x0000ff,
+    blueviolet: 0x8a2be2, brown: 0xa52a2a, burlywood: 0xdeb887, cadetblue: 0x5f9ea0, chartreuse: 0x7fff00,
+    chocolate: 0xd2691e, coral: 0xff7f50, cornflowerblue: 0x6495ed, cornsilk: 0xfff8dc, crimson: 0xdc143c,
+    cyan: 0x00ffff, darkblue: 0x00008b, darkcyan: 0x008b8b, darkgoldenrod: 0xb8860b, darkgray: 0xa9a9a9,
+    darkgreen: 0x006400, darkgrey: 0xa9a9a9, darkkhaki: 0xbdb76b, darkmagenta: 0x8b008b, darkolivegreen: 0x556b2f,
+    darkorange: 0xff8c00, darkorchid: 0x9932cc, darkred: 0x8b0000, darksalmon: 0xe9967a, darkseagreen: 0x8fbc8f,
+    darkslateblue: 0x483d8b, darkslategray: 0x2f4f4f, darkslategrey: 0x2f4f4f, darkturquoise: 0x00ced1,
+    darkviolet: 0x9400d3, deeppink: 0xff1493, deepskyblue: 0x00bfff, dimgray: 0x696969, dimgrey: 0x696969,
+    dodgerblue: 0x1e90ff, firebrick: 0xb22222, floralwhite: 0xfffaf0, forestgreen: 0x228b22, fuchsia: 0xff00ff,
+    gainsboro: 0xdcdcdc, ghostwhite: 0xf8f8ff, gold: 0xffd700, goldenrod: 0xdaa520, gray: 0x808080,
+    green: 0x008000, greenyellow: 0xadff2f, grey: 0x808080, honeydew: 0xf0fff0, hotpink: 0xff69b4,
+    indianred: 0xcd5c5c, indigo: 0x4b0082, ivory: 0xfffff0, khaki: 0xf0e68c, lavender: 0xe6e6fa,
+    lavenderblush: 0xfff0f5, lawngreen: 0x7cfc00, lemonchiffon: 0xfffacd, lightblue: 0xadd8e6, lightcoral: 0xf08080,
+    lightcyan: 0xe0ffff, lightgoldenrodyellow: 0xfafad2, lightgray: 0xd3d3d3, lightgreen: 0x90ee90,
+    lightgrey: 0xd3d3d3, lightpink: 0xffb6c1, lightsalmon: 0xffa07a, lightseagreen: 0x20b2aa,
+    lightskyblue: 0x87cefa, lightslategray: 0x778899, lightslategrey: 0x778899, lightsteelblue: 0xb0c4de,
+    lightyellow: 0xffffe0, lime: 0x00ff00, limegreen: 0x32cd32, linen: 0xfaf0e6, magenta: 0xff00ff,
+    maroon: 0x800000, mediumaquamarine: 0x66cdaa, mediumblue: 0x0000cd, mediumorchid: 0xba55d3,
+    mediumpurple: 0x9370db, mediumseagreen: 0x3cb371, mediumslateblue: 0x7b68ee, mediumspringgreen: 0x00fa9a,
+    mediumturquoise: 0x48d1cc, mediumvioletred: 0xc71585, midnightblue: 0x191970, mintcream: 0xf5fffa,
+    mistyrose: 0xffe4e1, moccasin: 0xffe4b5, navajowhite: 0xffdead, navy: 0x000080, oldlace: 0xfdf5e6,
+    olive: 0x808000, olivedrab: 0x6b8e23, orange: 0xffa500, orangered: 0xff4500, orchid: 0xda70d6,
+    palegoldenrod: 0xeee8aa, palegreen: 0x98fb98, paleturquoise: 0xafeeee, palevioletred: 0xdb7093,
+    papayawhip: 0xffefd5, peachpuff: 0xffdab9, peru: 0xcd853f, pink: 0xffc0cb, plum: 0xdda0dd,
+    powderblue: 0xb0e0e6, purple: 0x800080, rebeccapurple: 0x663399, red: 0xff0000, rosybrown: 0xbc8f8f,
+    royalblue: 0x4169e1, saddlebrown: 0x8b4513, salmon: 0xfa8072, sandybrown: 0xf4a460, seagreen: 0x2e8b57,
+    seashell: 0xfff5ee, sienna: 0xa0522d, silver: 0xc0c0c0, skyblue: 0x87ceeb, slateblue: 0x6a5acd,
+    slategray: 0x708090, slategrey: 0x708090, snow: 0xfffafa, springgreen: 0x00ff7f, steelblue: 0x4682b4,
+    tan: 0xd2b48c, teal: 0x008080, thistle: 0xd8bfd8, tomato: 0xff6347, turquoise: 0x40e0d0,
+    violet: 0xee82ee, wheat: 0xf5deb3, white: 0xffffff, whitesmoke: 0xf5f5f5, yellow: 0xffff00,
+    yellowgreen: 0x9acd32
+};
+
+// Conversion matrices from the CSS Color 4 sample code
+const XYZ_D65_TO_LINEAR_SRGB: Matrix3 = [
+    [12831 / 3959, -329 / 214, -1974 / 3959],
+    [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+    [705 / 12673, -2585 / 12673, 705 / 667]
+];
+const D50_TO_D65: Matrix3 = [
+    [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+    [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+    [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+    [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+    [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+    [0, 32229 / 714400, 5220557 / 5000800]
+];
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+    [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+    [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+    [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835]
+];
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+    [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+    [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+    [0, 0, 0.8251046025104602]
+];
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+    [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+    [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+    [0, 19567812 / 697040785, 295819943 / 278816314]
+];
+const D50_WHITE: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const multiply = (m: Matrix3, [x, y, z]: Vector3): Vector3 => [
+    m[0][0] * x + m[0][1] * y + m[0][2] * z,
+    m[1][0] * x + m[1][1] * y + m[1][2] * z,
+    m[2][0] * x + m[2][1] * y + m[2][2] * z
+];
+
+// Transfer functions, mirrored for negative values as the spec does
+const signed = (c: number, decode: (abs: number) => number) => Math.sign(c) * decode(Math.abs(c));
+
+const srgbToLinear = (c: number) =>
+    signed(c, (abs) => (abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4)));
+
+/**
+ * Encode a linear sRGB channel with the sRGB transfer function, e.g. to
+ * store it in 8 bits without banding in the darks
+ */
+export const linearToSrgb = (c: number): number =>
+    signed(c, (abs) => (abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055));
+
+const a98ToLinear = (c: number) => signed(c, (abs) => Math.pow(abs, 563 / 256));
+
+const prophotoToLinear = (c: number) => signed(c, (abs) => (abs <= 16 / 512 ? abs / 16 : Math.pow(abs, 1.8)));
+
+const rec2020ToLinear = (c: number) => {
+    const alpha = 1.09929682680944;
+    const beta = 0.018053968510807;
+    return signed(c, (abs) => (abs < beta * 4.5 ? abs / 4.5 : Math.pow((abs + alpha - 1) / alpha, 1 / 0.45)));
+};
+
+const hslToSrgb = (hue: number, saturation: number, lightness: number): Vector3 => {
+    const h = ((hue % 360) + 360) % 360;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    const f = (n: number) => {
+        const k = (n + h / 30) % 12;
+        return lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [f(0), f(8), f(4)];
+};
+
+const hwbToSrgb = (hue: number, whiteness: number, blackness: number): Vector3 => {
+    if (whiteness + blackness >= 1) {
+        const gray = whiteness / (whiteness + blackness);
+        return [gray, gray, gray];
+    }
+    return hslToSrgb(hue, 1, 0.5).map((c) => c * (1 - whiteness - blackness) + whiteness) as Vector3;
+};
+
+const labToXyzD50 = (l: number, a: number, b: number): Vector3 => {
+    const kappa = 24389 / 27;
+    const epsilon = 216 / 24389;
+    const fy = (l + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+    const x = Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa;
+    const y = l > kappa * epsilon ? Math.pow(fy, 3) : l / kappa;
+    const z = Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa;
+    return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+};
+
+const oklabToLinearSrgb = (l: number, a: number, b: number): Vector3 => {
+    const lms = [
+        l + 0.3963377774 * a + 0.2158037573 * b,
+        l - 0.1055613458 * a - 0.0638541728 * b,
+        l - 0.0894841775 * a - 1.291485548 * b
+    ].map((c) => c * c * c) as Vector3;
+    return multiply([
+        [4.0767416621, -3.3077115913, 0.2309699292],
+        [-1.2684380046, 2.6097574011, -0.3413193965],
+        [-0.0041960863, -0.7034186147, 1.707614701]
+    ], lms);
+};
+
+/**
+ * Convert linear sRGB to OKLab, e.g. to interpolate perceptually
+ */
+export const linearRgbToOklab = ({ r, g, b }: RGBColor): OklabColor => {
+    const [l, m, s] = multiply([
+        [0.4122214708, 0.5363325363, 0.0514459929],
+        [0.2119034982, 0.6806995451, 0.1073969566],
+        [0.0883024619, 0.2817188376, 0.6299787005]
+    ], [r, g, b]).map(Math.cbrt) as Vector3;
+    const [L, A, B] = multiply([
+        [0.2104542553, 0.793617785, -0.0040720468],
+        [1.9779984951, -2.428592205, 0.4505937099],
+        [0.0259040371, 0.7827717662, -0.808675766]
+    ], [l, m, s]);
+    return { l: L, a: A, b: B };
+};
+
+/**
+ * Convert OKLab back to linear sRGB, clipped to the sRGB gamut
+ */
+export const oklabToLinearRgb = ({ l, a, b }: OklabColor): RGBColor => {
+    const [r, g, blue] = oklabToLinearSrgb(l, a, b).map((c) => Math.min(Math.max(c, 0), 1));
+    return { r, g, b: blue };
+};
+
+const polarToCartesian = (chroma: number, hue: number): [number, number] => {
+    const radians = (hue * Math.PI) / 180;
+    return [chroma * Math.cos(radians), chroma * Math.sin(radians)];
+};
+
+/**
+ * Convert `color()` components in a predefined color space to linear sRGB
+ */
+const colorSpaceToLinearSrgb: Record<string, (c: Vector3) => Vector3> = {
+    'srgb': (c) => c.map(srgbToLinear) as Vector3,
+    'srgb-linear': (c) => c,
+    'display-p3': (c) => multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(LINEAR_P3_TO_XYZ, c.map(srgbToLinear) as Vector3)),
+    'a98-rgb': (c) => multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(LINEAR_A98_TO_XYZ, c.map(a98ToLinear) as Vector3)),
+    'prophoto-rgb': (c) => multiply(
+        XYZ_D65_TO_LINEAR_SRGB,
+        multiply(D50_TO_D65, multiply(LINEAR_PROPHOTO_TO_XYZ_D50, c.map(prophotoToLinear) as Vector3))
+    ),
+    'rec2020': (c) => multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(LINEAR_REC2020_TO_XYZ, c.map(rec2020ToLinear) as Vector3)),
+    'xyz': (c) => multiply(XYZ_D65_TO_LINEAR_SRGB, c),
+    'xyz-d65': (c) => multiply(XYZ_D65_TO_LINEAR_SRGB, c),
+    'xyz-d50': (c) => multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(D50_TO_D65, c))
+};
+
+const TOKEN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+const ANGLE_TO_DEGREES: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+
+/**
+ * Read one component
+ * @param percentScale - Value that 100% maps to
+ * @param kind - 'hue' accepts angles, 'number' accepts plain numbers and percentages
+ */
+const parseComponent = (token: string, percentScale: number, kind: 'number' | 'hue' = 'number'): number => {
+    if (token.toLowerCase() === 'none') return 0;
+    const match = token.match(TOKEN);
+    if (!match) throw new Error(`"${token}" is not a number`);
+
+    const value = parseFloat(match[1]);
+    const unit = match[2]?.toLowerCase();
+    if (!unit) return value;
+    if (unit === '%') {
+        if (kind === 'hue') throw new Error(`hue "${token}" cannot be a percentage`);
+        return (value / 100) * percentScale;
+    }
+    if (kind !== 'hue') throw new Error(`"${token}" cannot have an angle unit`);
+    return value * ANGLE_TO_DEGREES[unit];
+};
+
+const parseHex = (hex: string): { rgb: Vector3; alpha: number } => {
+    if (!/^[0-9a-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+        throw new Error('hex colors need 3, 4, 6 or 8 hex digits');
+    }
+    const digits = hex.length <= 4 ? hex.split('').map((digit) => digit + digit) : hex.match(/../g)!;
+    const [r, g, b, a = 'ff'] = digits;
+    return {
+        rgb: [r, g, b].map((channel) => parseInt(channel, 16) / 255) as Vector3,
+        alpha: parseInt(a, 16) / 255
+    };
+};
+
+/**
+ * Parse the arguments of a color function into three channels and alpha,
+ * accepting both `rgb(1 2 3 / 50%)` and the legacy `rgba(1, 2, 3, 0.5)`
+ */
+const parseArguments = (name: string, body: string): { channels: string[]; alpha: string | undefined } => {
+    const legacy = body.includes(',');
+    if (legacy) {
+        if (!['rgb', 'rgba', 'hsl', 'hsla'].includes(name)) {
+            throw new Error(`${name}() does not accept commas`);
+        }
+        const parts = body.split(',').map((part) => part.trim());
+        if (parts.length !== 3 && parts.length !== 4) {
+            throw new Error(`${name}() needs 3 channels and an optional alpha`);
+        }
+        return { channels: parts.slice(0, 3), alpha: parts[3] };
+    }
+
+    const [channelPart, alpha, extra] = body.split('/').map((part) => part.trim());
+    if (extra !== undefined || alpha === '') {
+        throw new Error('alpha must follow a single "/"');
+    }
+    return { channels: channelPart.split(/\s+/).filter(Boolean), alpha };
+};
+
+const expectChannels = (name: string, channels: string[], count: number) => {
+    if (channels.length !== count) {
+        throw new Error(`${name}() needs ${count} channels, got ${channels.length}`);
+    }
+};
+
+/**
+ * Parse a CSS color function into linear sRGB
+ */
+const parseFunction = (name: string, body: string): { rgb: Vector3; alpha: number } => {
+    const { channels, alpha: alphaToken } = parseArguments(name, body);
+    const alpha = alphaToken === undefined ? 1 : parseComponent(alphaToken, 1);
+
+    switch (name) {
+        case 'rgb':
+        case 'rgba': {
+            expectChannels(name, channels, 3);
+            const srgb = channels.map((channel) => parseComponent(channel, 255) / 255) as Vector3;
+            return { rgb: srgb.map(srgbToLinear) as Vector3, alpha };
+        }
+        case 'hsl':
+        case 'hsla': {
+            expectChannels(name, channels, 3);
+            const hue = parseComponent(channels[0], 0, 'hue');
+            // Modern syntax also allows plain numbers, meaning percentages
+            const saturation = parseComponent(channels[1], 100) / 100;
+            const lightness = parseComponent(channels[2], 100) / 100;
+            return { rgb: hslToSrgb(hue, saturation, lightness).map(srgbToLinear) as Vector3, alpha };
+        }
+        case 'hwb': {
+            expectChannels(name, channels, 3);
+            const hue = parseComponent(channels[0], 0, 'hue');
+            const whiteness = parseComponent(channels[1], 100) / 100;
+            const blackness = parseComponent(channels[2], 100) / 100;
+            return { rgb: hwbToSrgb(hue, whiteness, blackness).map(srgbToLinear) as Vector3, alpha };
+        }
+        case 'lab': {
+            expectChannels(name, channels, 3);
+            const xyz = labToXyzD50(
+                parseComponent(channels[0], 100),
+                parseComponent(channels[1], 125),
+                parseComponent(channels[2], 125)
+            );
+            return { rgb: multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(D50_TO_D65, xyz)), alpha };
+        }
+        case 'lch': {
+            expectChannels(name, channels, 3);
+            const [a, b] = polarToCartesian(parseComponent(channels[1], 150), parseComponent(channels[2], 0, 'hue'));
+            const xyz = labToXyzD50(parseComponent(channels[0], 100), a, b);
+            return { rgb: multiply(XYZ_D65_TO_LINEAR_SRGB, multiply(D50_TO_D65, xyz)), alpha };
+        }
+        case 'oklab': {
+            expectChannels(name, channels, 3);
+            return {
+                rgb: oklabToLinearSrgb(
+                    parseComponent(channels[0], 1),
+                    parseComponent(channels[1], 0.4),
+                    parseComponent(channels[2], 0.4)
+                ),
+                alpha
+            };
+        }
+        case 'oklch': {
+            expectChannels(name, channels, 3);
+            const [a, b] = polarToCartesian(parseComponent(channels[1], 0.4), parseComponent(channels[2], 0, 'hue'));
+            return { rgb: oklabToLinearSrgb(parseComponent(channels[0], 1), a, b), alpha };
+        }
+        case 'color': {
+            const [space, ...components] = channels;
+            if (!space || !Object.prototype.hasOwnProperty.call(colorSpaceToLinearSrgb, space)) {
+                throw new Error(`unknown color space "${space ?? ''}"`);
+            }
+            const toLinearSrgb = colorSpaceToLinearSrgb[space];
+            expectChannels(`color(${space})`, components, 3);
+            return { rgb: toLinearSrgb(components.map((c) => parseComponent(c, 1)) as Vector3), alpha };
+        }
+        default:
+            throw new Error(`unknown color function ${name}()`);
+    }
+};
+
+/**
+ * Parse any CSS Color Level 4 color: hex, named colors, rgb(), hsl(),
+ * hwb(), lab(), lch(), oklab(), oklch() and color(). Colors outside sRGB
+ * are clipped to the sRGB gamut.
+ * @param input - CSS color string
+ * @returns Linear-light sRGB channels and alpha, all between 0 and 1
+ */
+export const parseColor = (input: string): RGBAColor => {
+    const value = input.trim();
+    const lower = value.toLowerCase();
+
+    try {
+        let parsed: { rgb: Vector3; alpha: number };
+        if (lower.startsWith('#')) {
+            const { rgb, alpha } = parseHex(lower.slice(1));
+            parsed = { rgb: rgb.map(srgbToLinear) as Vector3, alpha };
+        } else if (lower === 'transparent') {
+            parsed = { rgb: [0, 0, 0], alpha: 0 };
+        } else if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, lower)) {
+            const hex = NAMED_COLORS[lower];
+            const srgb: Vector3 = [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255].map((c) => c / 255) as Vector3;
+            parsed = { rgb: srgb.map(srgbToLinear) as Vector3, alpha: 1 };
+        } else {
+            const match = lower.match(/^([a-z-]+)\((.*)\)$/);
+            if (!match) throw new Error('expected a hex color, a named color or a color function');
+            parsed = parseFunction(match[1], match[2].trim());
+        }
+
+        const clip = (c: number) => Math.min(Math.max(Number.isFinite(c) ? c : 0, 0), 1);
+        const [r, g, b] = parsed.rgb.map(clip);
+        return { r, g, b, a: clip(parsed.alpha) };
+    } catch (error) {
+        throw new Error(`Invalid color "${input}": ${error instanceof Error ? error.message : error}`);
+    }
+};
+
@@ -0,0 +1,180 @@
+import { DEFAULT_CONFIG, validateConfig } from "./configSchema";
+import type { Config } from "./types";
+
+const validate = (config: Record<string, unknown>, base?: Partial<Config>) =>
+  validateConfig(config as Partial<Config>, { warn: false, base });
+
+describe("validateConfig", () => {
+  it("keeps valid values and reports nothing", () => {
+    const { config, issues } = validate({
+      CURL: 2,
+      SHOW_OBSTACLES: true,
+      COLOR_SCHEME: "fire",
+      BOUNDARY_MODE: "periodic",
+    });
+
+    expect(config).toEqual({
+      CURL: 2,
+      SHOW_OBSTACLES: true,
+      COLOR_SCHEME: "fire",
+      BOUNDARY_MODE: "periodic",
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("clamps numbers to their range and rounds integers", () => {
+    const { config, issues } = validate({
+      PRESSURE: 3,
+      SIM_RESOLUTION: 100.4,
+      BLOOM_ITERATIONS: 0,
+    });
+
+    expect(config).toEqual({
+      PRESSURE: 1,
+      SIM_RESOLUTION: 100,
+      BLOOM_ITERATIONS: 1,
+    });
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "PRESSURE",
+      "SIM_RESOLUTION",
+      "BLOOM_ITERATIONS",
+    ]);
+  });
+
+  it("falls back to the default for values of the wrong kind", () => {
+    const { config, issues } = validate({
+      CURL: Number.NaN,
+      SHOW_OBSTACLES: "yes",
+      BOUNDARY_MODE: "mirror",
+      COLOR_SCHEME: "no-such-scheme",
+    });
+
+    expect(config).toEqual({
+      CURL: DEFAULT_CONFIG.CURL,
+      SHOW_OBSTACLES: DEFAULT_CONFIG.SHOW_OBSTACLES,
+      BOUNDARY_MODE: DEFAULT_CONFIG.BOUNDARY_MODE,
+      COLOR_SCHEME: DEFAULT_CONFIG.COLOR_SCHEME,
+    });
+    expect(issues).toHaveLength(4);
+  });
+
+  it("drops unknown keys", () => {
+    const { config, issues } = validate({ NOT_A_KEY: 1, CURL: 1 });
+
+    expect(config).toEqual({ CURL: 1 });
+    expect(issues).toEqual([
+      { path: "NOT_A_KEY", message: "unknown key, ignored" },
+    ]);
+  });
+
+  describe("nested blocks", () => {
+    it("merges a partial block over the base without reporting missing keys", () => {
+      const base = {
+        DUFFING: { ...DEFAULT_CONFIG.DUFFING, GAMMA: 2 },
+      };
+      const { config, issues } = validate({ DUFFING: { DELTA: 0.5 } }, base);
+
+      expect(config.DUFFING).toEqual({
+        ...DEFAULT_CONFIG.DUFFING,
+        GAMMA: 2,
+        DELTA: 0.5,
+      });
+      expect(issues).toEqual([]);
+    });
+
+    it("merges over the defaults when there is no base", () => {
+      const { config } = validate({ BACK_COLOR: { r: 0.5 } });
+
+      expect(config.BACK_COLOR).toEqual({
+        ...DEFAULT_CONFIG.BACK_COLOR,
+        r: 0.5,
+      });
+    });
+
+    it("reports only the given keys that are invalid", () => {
+      const { config, issues } = validate({
+        DUFFING: { NUM_OSCILLATORS: 1000, EXTRA: 1 },
+      });
+
+      expect(config.DUFFING?.NUM_OSCILLATORS).toBe(64);
+      expect(issues.map((issue) => issue.path)).toEqual([
+        "DUFFING.EXTRA",
+        "DUFFING.NUM_OSCILLATORS",
+      ]);
+    });
+
+    it("falls back to the default block when it is not an object", () => {
+      const { config, issues } = validate({ GRAVITY: [0, 1] });
+
+      expect(config.GRAVITY).toEqual(DEFAULT_CONFIG.GRAVITY);
+      expect(issues).toHaveLength(1);
+    });
+  });
+
+  describe("lists", () => {
+    it("removes invalid entries", () => {
+      const { config, issues } = validate({
+        MOTION_SOURCES: [
+          { type: "duffing", count: 2 },
+          { type: "no-such-source" },
+          {},
+        ],
+      });
+
+      expect(config.MOTION_SOURCES).toEqual([{ type: "duffing", count: 2 }]);
+      expect(issues.map((issue) => issue.path)).toEqual([
+        "MOTION_SOURCES.1",
+        "MOTION_SOURCES.2",
+      ]);
+    });
+
+    it("resets to the default when passed as undefined", () => {
+      const { config, issues } = validate({ MOTION_SOURCES: undefined });
+
+      expect("MOTION_SOURCES" in config).toBe(true);
+      expect(config.MOTION_SOURCES).toBeUndefined();
+      expect(issues).toEqual([]);
+    });
+  });
+
+  it("resets any key passed as undefined to its default", () => {
+    const { config, issues } = validate({
+      CURL: undefined,
+      GRAVITY: undefined,
+    });
+
+    expect(config).toEqual({
+      CURL: DEFAULT_CONFIG.CURL,
+      GRAVITY: DEFAULT_CONFIG.GRAVITY,
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("throws listing every issue in strict mode", () => {
+    expect(() =>
+      validateConfig({ CURL: -1, NOT_A_KEY: 1 } as Partial<Config>, {
+        strict: true,
+      })
+    ).toThrow(/CURL: .*NOT_A_KEY: unknown key, ignored/);
+    expect(() =>
+      validateConfig({ DUFFING: { DELTA: 0.5 } } as Partial<Config>, {
+        strict: true,
+      })
+    ).not.toThrow();
+  });
+
+  it("warns once per issue unless warnings are off", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    validateConfig({
+      CURL: -1,
+      SHOW_OBSTACLES: 1,
+    } as unknown as Partial<Config>);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    warn.mockClear();
+    validateConfig({ CURL: -1 }, { warn: false });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
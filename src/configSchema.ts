@@ -0,0 +1,293 @@
+// Config schema and validation utilities using functional programming
+import { getColorSchemeProblem } from './colorManager';
+import { listMotionSources } from './motionSourceRegistry';
+import {
+    Config,
+    ConfigFieldSchema,
+    ConfigIssue,
+    ConfigSchema,
+    ConfigValidationOptions,
+    ConfigValidationResult
+} from './types';
+
+const number = (defaultValue: number, min: number, max: number, description: string): ConfigFieldSchema =>
+    ({ type: 'number', default: defaultValue, min, max, description });
+
+const integer = (defaultValue: number, min: number, max: number, description: string): ConfigFieldSchema =>
+    ({ type: 'number', default: defaultValue, min, max, integer: true, description });
+
+const flag = (defaultValue: boolean, description: string): ConfigFieldSchema =>
+    ({ type: 'boolean', default: defaultValue, description });
+
+const oneOf = (
+    defaultValue: unknown,
+    values: readonly unknown[],
+    description: string
+): ConfigFieldSchema => ({ type: 'enum', default: defaultValue, values, description });
+
+const block = (fields: Record<string, ConfigFieldSchema>, description: string): ConfigFieldSchema =>
+    ({ type: 'object', fields, description });
+
+const color = (r: number, g: number, b: number, description: string): ConfigFieldSchema =>
+    block({
+        r: number(r, 0, 1, 'Red, 0 to 1'),
+        g: number(g, 0, 1, 'Green, 0 to 1'),
+        b: number(b, 0, 1, 'Blue, 0 to 1')
+    }, description);
+
+const colorScheme = (defaultValue: string, description: string): ConfigFieldSchema =>
+    ({ type: 'custom', default: defaultValue, validate: getColorSchemeProblem, description });
+
+/**
+ * Every config key with its default and valid range
+ */
+export const CONFIG_SCHEMA: ConfigSchema = {
+    SIM_RESOLUTION: integer(512, 16, 2048, 'Velocity and pressure grid size along the shorter side'),
+    DYE_RESOLUTION: integer(1024, 16, 4096, 'Dye texture size along the shorter side'),
+    DENSITY_DISSIPATION: number(2.5, 0, 20, 'How fast the dye fades'),
+    VELOCITY_DISSIPATION: number(0.9, 0, 20, 'How fast the flow slows down'),
+    PRESSURE: number(0.8, 0, 1, 'Share of the previous pressure kept between frames'),
+    PRESSURE_ITERATIONS: integer(20, 1, 200, 'Jacobi iterations of the pressure solve'),
+    PRESSURE_SOLVER: oneOf('jacobi', ['jacobi', 'multigrid'], 'Pressure solver'),
+    MULTIGRID_CYCLES: integer(2, 1, 10, 'V-cycles of the multigrid pressure solve'),
+    ADVECTION_SCHEME: oneOf('semi-lagrangian', ['semi-lagrangian', 'maccormack', 'bfecc'], 'Advection scheme'),
+    VISCOSITY: number(0, 0, 1000, 'Velocity diffusion rate in texels squared per second'),
+    DYE_DIFFUSION: number(0, 0, 1000, 'Dye diffusion rate in texels squared per second'),
+    DIFFUSION_ITERATIONS: integer(20, 1, 200, 'Jacobi iterations of the diffusion solve'),
+    CURL: number(0.1, 0, 100, 'Vorticity confinement strength'),
+    SPLAT_RADIUS: number(0.0003, 0.00001, 1, 'Splat radius as a fraction of the canvas'),
+    SPLAT_FORCE: number(8000, 0, 100000, 'Velocity added by a splat'),
+    BACK_COLOR: color(0, 0, 0, 'Background color'),
+    BLOOM_ITERATIONS: integer(10, 1, 16, 'Bloom blur levels'),
+    BLOOM_RESOLUTION: integer(256, 16, 2048, 'Bloom texture size along the shorter side'),
+    BLOOM_INTENSITY: number(0.15, 0, 10, 'Bloom strength'),
+    BLOOM_THRESHOLD: number(0.0, 0, 1, 'Brightness where bloom starts'),
+    BLOOM_SOFT_KNEE: number(0.7, 0, 1, 'Softness of the bloom threshold'),
+    SUNRAYS_RESOLUTION: integer(256, 16, 2048, 'Sunrays texture size along the shorter side'),
+    SUNRAYS_WEIGHT: number(0.1, 0, 10, 'Sunrays strength'),
+    COLOR_SCHEME: colorScheme('dusk', 'Registered color scheme name or inline { gradient } of the splats'),
+    COLOR_SAMPLING: oneOf('stops', ['stops', 'sequential', 'random', 'ping-pong', 'time'], 'How splat colors are picked from the gradient'),
+    COLOR_INTERPOLATION: oneOf('oklab', ['oklab', 'oklch'], 'Color space the gradient is sampled in'),
+    COLOR_SAMPLING_STEP: number(0.1, 0.001, 1, 'Gradient fraction between sequential and ping-pong picks'),
+    COLOR_CYCLE_PERIOD: number(10, 0.1, 3600, 'Seconds per pass through the gradient in time mode'),
+    EMITTER_COLOR_DRIFT: number(0, 0, 10, 'Gradient fraction per second emitter colors travel, 0 keeps them fixed'),
+    COLOR_MODE: oneOf('fixed', ['fixed', 'speed', 'radial', 'angular', 'index', 'time', 'intensity'], 'What picks the gradient position of emitter splats'),
+    COLOR_SPEED_RANGE: number(1, 0.01, 100, 'Emitter speed in canvas sizes per second at the end of the gradient in speed mode'),
+    INPUT_MODE: oneOf('both', ['oscillators', 'user', 'both'], 'Which sources drive splats'),
+    OBSTACLE_BOUNDARY: oneOf('no-slip', ['no-slip', 'free-slip'], 'Velocity behavior next to obstacles'),
+    BOUNDARY_MODE: oneOf('walls', ['walls', 'periodic', 'open'], 'Behavior at the edges of the domain'),
+    SHOW_OBSTACLES: flag(false, 'Draw obstacles over the fluid'),
+    OBSTACLE_COLOR: color(0.1, 0.1, 0.1, 'Color of drawn obstacles'),
+    TEMPERATURE_ENABLED: flag(false, 'Simulate temperature and buoyancy'),
+    TEMPERATURE_DISSIPATION: number(1.0, 0, 20, 'How fast heat fades'),
+    BUOYANCY: number(30, 0, 1000, 'Upward force per unit of temperature above ambient'),
+    AMBIENT_TEMPERATURE: number(0, -10, 10, 'Temperature without buoyancy'),
+    GRAVITY: block({
+        x: number(0, -1, 1, 'Horizontal component'),
+        y: number(-1, -1, 1, 'Vertical component')
+    }, 'Direction buoyancy pushes against'),
+    SPLAT_HEAT: number(0.8, 0, 10, 'Temperature injected by each splat'),
+    TEMPERATURE_COLOR_SCHEME: colorScheme('fire', 'Registered color scheme name or inline { gradient } of the temperature overlay'),
+    TEMPERATURE_INTENSITY: number(0, 0, 1, 'Temperature overlay strength, 0 hides it'),
+    FIXED_TIMESTEP: number(1 / 60, 0.001, 0.1, 'Seconds simulated per fixed step'),
+    SUBSTEPS: integer(1, 1, 16, 'Solver steps per fixed step'),
+    MAX_STEPS_PER_FRAME: integer(4, 1, 60, 'Cap on catch-up steps after slow frames'),
+    THROTTLE: flag(true, 'Slow down or pause while the canvas cannot be seen'),
+    OFFSCREEN_FPS: number(0, 0, 240, 'Frame rate while offscreen or hidden, 0 pauses'),
+    LOW_POWER: flag(false, 'Cap the frame rate at LOW_POWER_FPS'),
+    LOW_POWER_FPS: number(30, 1, 240, 'Frame rate in low power mode'),
+    REDUCED_MOTION: oneOf('auto', [true, false, 'auto'], 'Reduce motion, "auto" follows prefers-reduced-motion'),
+    REDUCED_MOTION_MODE: oneOf('gradient', ['static', 'slow', 'gradient'], 'How motion is reduced'),
+    REDUCED_MOTION_TIME_SCALE: number(0.2, 0, 1, 'Simulation speed in slow mode'),
+    DETERMINISTIC: flag(false, 'Seeded randomness and frame-locked time'),
+    SEED: integer(1, 0, 4294967295, 'Seed of deterministic runs'),
+    MOTION_SOURCES: {
+        type: 'list',
+        optional: true,
+        validateItem: (item) => {
+            const type = (item as { type?: unknown } | null)?.type;
+            if (typeof type !== 'string') return 'entry has no type';
+            if (!listMotionSources().includes(type)) return `unknown motion source "${type}"`;
+            return null;
+        },
+        description: 'Motion source groups, defaults to DUFFING.NUM_OSCILLATORS Duffing oscillators'
+    },
+    DUFFING: block({
+        NUM_OSCILLATORS: integer(8, 1, 64, 'Number of oscillators'),
+        DELTA: number(0.2, 0, 10, 'Damping coefficient'),
+        BETA: number(0.08, -10, 10, 'Linear stiffness'),
+        ALPHA: number(0.9, -10, 10, 'Cubic stiffness'),
+        GAMMA: number(0.8, 0, 10, 'Forcing amplitude'),
+        OMEGA: number(0.4, 0, 10, 'Forcing frequency')
+    }, 'Duffing oscillator parameters'),
+    LORENZ: block({
+        SIGMA: number(10, 0, 100, 'Prandtl number'),
+        RHO: number(28, 0, 200, 'Rayleigh number'),
+        BETA: number(8 / 3, 0, 20, 'Geometric factor'),
+        SCALE: number(1, 0, 10, 'Projection scale'),
+        SPEED: number(0.2, 0, 10, 'Time multiplier')
+    }, 'Lorenz attractor parameters'),
+    ROSSLER: block({
+        A: number(0.2, -10, 10, 'A'),
+        B: number(0.2, -10, 10, 'B'),
+        C: number(5.7, 0, 50, 'C'),
+        SCALE: number(1, 0, 10, 'Projection scale'),
+        SPEED: number(1.5, 0, 10, 'Time multiplier')
+    }, 'Rössler attractor parameters'),
+    CLIFFORD: block({
+        A: number(-1.4, -3, 3, 'A'),
+        B: number(1.6, -3, 3, 'B'),
+        C: number(1.0, -3, 3, 'C'),
+        D: number(0.7, -3, 3, 'D'),
+        SCALE: number(1, 0, 10, 'Projection scale'),
+        SPEED: number(1.5, 0, 10, 'Map iterations per second')
+    }, 'Clifford attractor parameters'),
+    DE_JONG: block({
+        A: number(1.4, -3, 3, 'A'),
+        B: number(-2.3, -3, 3, 'B'),
+        C: number(2.4, -3, 3, 'C'),
+        D: number(-2.1, -3, 3, 'D'),
+        SCALE: number(1, 0, 10, 'Projection scale'),
+        SPEED: number(1.5, 0, 10, 'Map iterations per second')
+    }, 'De Jong attractor parameters')
+};
+
+const getDefault = (field: ConfigFieldSchema): unknown => {
+    switch (field.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(field.fields).map(([key, nested]) => [key, getDefault(nested)])
+            );
+        case 'list':
+            return undefined;
+        default:
+            return field.default;
+    }
+};
+
+/**
+ * Config used for every key the host leaves out
+ */
+export const DEFAULT_CONFIG = Object.fromEntries(
+    Object.entries(CONFIG_SCHEMA)
+        .map(([key, field]) => [key, getDefault(field)])
+        .filter(([, value]) => value !== undefined)
+) as Config;
+
+const format = (value: unknown) =>
+    typeof value === 'number' ? String(value) : JSON.stringify(value) ?? String(value);
+
+const validateField = (
+    field: ConfigFieldSchema,
+    value: unknown,
+    path: string,
+    issues: ConfigIssue[],
+    base: unknown = getDefault(field)
+): unknown => {
+    const fallback = (problem: string) => {
+        const defaultValue = getDefault(field);
+        issues.push({ path, message: `${problem}, using the default ${format(defaultValue)}` });
+        return defaultValue;
+    };
+
+    switch (field.type) {
+        case 'number': {
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return fallback(`${format(value)} is not a finite number`);
+            }
+            let result = field.integer ? Math.round(value) : value;
+            if (result !== value) {
+                issues.push({ path, message: `${value} is not an integer, rounded to ${result}` });
+            }
+            if (result < field.min || result > field.max) {
+                const clamped = Math.min(Math.max(result, field.min), field.max);
+                issues.push({
+                    path,
+                    message: `${result} is outside ${field.min} to ${field.max}, clamped to ${clamped}`
+                });
+                result = clamped;
+            }
+            return result;
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? value : fallback(`${format(value)} is not a boolean`);
+        case 'enum': {
+            return field.values.includes(value)
+                ? value
+                : fallback(`${format(value)} is not one of ${field.values.map(format).join(', ')}`);
+        }
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return fallback(`${format(value)} is not an object`);
+            }
+            const input = value as Record<string, unknown>;
+            Object.keys(input)
+                .filter((key) => !(key in field.fields))
+                .forEach((key) => issues.push({ path: `${path}.${key}`, message: 'unknown key, ignored' }));
+            // Partial blocks are merged over the base block, so only the given fields are checked
+            const baseBlock = (typeof base === 'object' && base !== null ? base : {}) as Record<string, unknown>;
+            return Object.fromEntries(
+                Object.entries(field.fields).map(([key, nested]) => {
+                    const baseValue = baseBlock[key] ?? getDefault(nested);
+                    if (!(key in input)) return [key, baseValue];
+                    return [key, validateField(nested, input[key], `${path}.${key}`, issues, baseValue)];
+                })
+            );
+        }
+        case 'custom': {
+            const problem = field.validate(value);
+            return problem ? fallback(problem) : value;
+        }
+        case 'list': {
+            if (!Array.isArray(value)) {
+                return fallback(`${format(value)} is not an array`);
+            }
+            return value.filter((item, i) => {
+                const problem = field.validateItem(item);
+                if (problem) issues.push({ path: `${path}.${i}`, message: `${problem}, entry removed` });
+                return !problem;
+            });
+        }
+    }
+};
+
+/**
+ * Check a full or partial config against CONFIG_SCHEMA. Out of range numbers
+ * are clamped, other invalid values fall back to their defaults and unknown
+ * keys are dropped. Nested blocks such as DUFFING may be partial; the fields
+ * left out are taken from `base`. Passing undefined resets a key to its default.
+ * @param config - Config to check, e.g. a saved preset
+ * @param options - `strict` throws instead of clamping, `warn: false` silences
+ * the warnings, `base` is the config partial blocks are merged over
+ * @returns The corrected config and every issue found
+ */
+export const validateConfig = (
+    config: Partial<Config>,
+    { strict = false, warn = true, base = DEFAULT_CONFIG }: ConfigValidationOptions = {}
+): ConfigValidationResult => {
+    const issues: ConfigIssue[] = [];
+    const result: Record<string, unknown> = {};
+    const schema: Record<string, ConfigFieldSchema> = CONFIG_SCHEMA;
+
+    Object.entries(config).forEach(([key, value]) => {
+        if (!schema[key]) {
+            issues.push({ path: key, message: 'unknown key, ignored' });
+            return;
+        }
+        // An explicit undefined resets the key, e.g. MOTION_SOURCES back to the DUFFING oscillators
+        if (value === undefined) {
+            result[key] = getDefault(schema[key]);
+            return;
+        }
+        const valid = validateField(schema[key], value, key, issues, base[key as keyof Config]);
+        if (valid !== undefined) result[key] = valid;
+    });
+
+    if (strict && issues.length > 0) {
+        throw new Error(`Invalid config: ${issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}`);
+    }
+    if (warn) {
+        issues.forEach((issue) => console.warn(`Config ${issue.path}: ${issue.message}`));
+    }
+    return { config: result as Partial<Config>, issues };
+};
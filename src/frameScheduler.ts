@@ -0,0 +1,84 @@
+import { FrameContext, FrameHook, FramePhase } from './types';
+
+/**
+ * Phases of a frame in the order they run. `inputs`, `emitters` and
+ * `simulation` repeat once per solver step; `post` and `present` run once
+ * per frame. Loop frames without a step still run `inputs` once.
+ */
+export const FRAME_PHASES: FramePhase[] = ['inputs', 'emitters', 'simulation', 'post', 'present'];
+
+/**
+ * Single requestAnimationFrame loop for the renderer. The frame callback
+ * runs each phase through `runPhase`, which calls the host hooks registered
+ * for that phase right after the built-in work.
+ */
+export class FrameScheduler {
+    private frame: (timestamp: number) => void;
+    private hooks: Record<FramePhase, FrameHook[]> = {
+        inputs: [],
+        emitters: [],
+        simulation: [],
+        post: [],
+        present: []
+    };
+    private animationFrameId: number | null = null;
+
+    /**
+     * @param frame - Called once per animation frame with its timestamp
+     */
+    constructor(frame: (timestamp: number) => void) {
+        this.frame = frame;
+    }
+
+    public start(): void {
+        if (this.animationFrameId !== null) return;
+        this.animationFrameId = requestAnimationFrame(this.tick);
+    }
+
+    public stop(): void {
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+    }
+
+    public get running(): boolean {
+        return this.animationFrameId !== null;
+    }
+
+    /**
+     * Register a hook for a phase
+     * @returns Function removing the hook
+     */
+    public on(phase: FramePhase, hook: FrameHook): () => void {
+        if (!this.hooks[phase]) {
+            throw new Error(`Unknown frame phase "${phase}"`);
+        }
+        this.hooks[phase].push(hook);
+        return () => {
+            this.hooks[phase] = this.hooks[phase].filter((h) => h !== hook);
+        };
+    }
+
+    /**
+     * Run the built-in work of a phase followed by its hooks
+     */
+    public runPhase(phase: FramePhase, context: Omit<FrameContext, 'phase'>, work: () => void): void {
+        work();
+        this.hooks[phase].forEach((hook) => hook({ ...context, phase }));
+    }
+
+    public clear(): void {
+        FRAME_PHASES.forEach((phase) => {
+            this.hooks[phase] = [];
+        });
+    }
+
+    private tick = (timestamp: number): void => {
+        this.frame(timestamp);
+        // The frame callback may have stopped the loop
+        if (this.animationFrameId !== null) {
+            this.animationFrameId = requestAnimationFrame(this.tick);
+        }
+    };
+}
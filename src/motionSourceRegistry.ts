@@ -0,0 +1,122 @@
+// Motion source registry utilities using functional programming
+import { DuffingOscillator } from './DuffingOscillator';
+import {
+    CliffordAttractor,
+    DeJongAttractor,
+    LorenzAttractor,
+    RosslerAttractor
+} from './StrangeAttractor';
+import { Config, MotionSource, MotionSourceConfig, MotionSourceParams } from './types';
+
+export interface MotionSourceFactoryContext {
+    index: number;   // position of the source within its group
+    total: number;   // number of sources in the group
+    params: MotionSourceParams;
+    config: Config;
+    random: () => number;  // seeded in deterministic mode, use instead of Math.random
+}
+
+export type MotionSourceFactory = (context: MotionSourceFactoryContext) => MotionSource;
+
+const motionSourceFactories: Record<string, MotionSourceFactory> = {
+    duffing: ({ index, total, params, config }) => new DuffingOscillator({
+        delta: params.delta ?? config.DUFFING.DELTA,
+        beta: params.beta ?? config.DUFFING.BETA,
+        alpha: params.alpha ?? config.DUFFING.ALPHA,
+        gamma: params.gamma ?? config.DUFFING.GAMMA,
+        omega: params.omega ?? config.DUFFING.OMEGA,
+        index,
+        total
+    }),
+    lorenz: ({ index, total, params, config }) => new LorenzAttractor({
+        sigma: params.sigma ?? config.LORENZ.SIGMA,
+        rho: params.rho ?? config.LORENZ.RHO,
+        beta: params.beta ?? config.LORENZ.BETA,
+        scale: params.scale ?? config.LORENZ.SCALE,
+        speed: params.speed ?? config.LORENZ.SPEED,
+        index,
+        total
+    }),
+    rossler: ({ index, total, params, config }) => new RosslerAttractor({
+        a: params.a ?? config.ROSSLER.A,
+        b: params.b ?? config.ROSSLER.B,
+        c: params.c ?? config.ROSSLER.C,
+        scale: params.scale ?? config.ROSSLER.SCALE,
+        speed: params.speed ?? config.ROSSLER.SPEED,
+        index,
+        total
+    }),
+    clifford: ({ index, total, params, config }) => new CliffordAttractor({
+        a: params.a ?? config.CLIFFORD.A,
+        b: params.b ?? config.CLIFFORD.B,
+        c: params.c ?? config.CLIFFORD.C,
+        d: params.d ?? config.CLIFFORD.D,
+        scale: params.scale ?? config.CLIFFORD.SCALE,
+        speed: params.speed ?? config.CLIFFORD.SPEED,
+        index,
+        total
+    }),
+    dejong: ({ index, total, params, config }) => new DeJongAttractor({
+        a: params.a ?? config.DE_JONG.A,
+        b: params.b ?? config.DE_JONG.B,
+        c: params.c ?? config.DE_JONG.C,
+        d: params.d ?? config.DE_JONG.D,
+        scale: params.scale ?? config.DE_JONG.SCALE,
+        speed: params.speed ?? config.DE_JONG.SPEED,
+        index,
+        total
+    })
+};
+
+/**
+ * Register a motion source factory under a type name usable in `Config.MOTION_SOURCES`
+ * @param type - Name referenced by `MotionSourceConfig.type`
+ * @param factory - Function creating one source per index in the group
+ */
+export const registerMotionSource = (type: string, factory: MotionSourceFactory): void => {
+    if (motionSourceFactories[type]) {
+        console.warn(`Motion source "${type}" is already registered, replacing it`);
+    }
+    motionSourceFactories[type] = factory;
+};
+
+/**
+ * List the registered motion source type names
+ */
+export const listMotionSources = (): string[] => {
+    return Object.keys(motionSourceFactories);
+};
+
+/**
+ * Resolve the motion source groups for a config, falling back to the Duffing oscillators
+ * @param config - Full simulation config
+ */
+export const getMotionSourceConfigs = (config: Config): MotionSourceConfig[] => {
+    return config.MOTION_SOURCES ?? [
+        { type: 'duffing', count: config.DUFFING.NUM_OSCILLATORS }
+    ];
+};
+
+/**
+ * Create every motion source described by the config
+ * @param config - Full simulation config
+ * @param random - Random number generator handed to the factories
+ * @returns Flat list of sources in config order
+ */
+export const createMotionSources = (config: Config, random: () => number = Math.random): MotionSource[] => {
+    return getMotionSourceConfigs(config).flatMap((sourceConfig) => {
+        const factory = motionSourceFactories[sourceConfig.type];
+        if (!factory) {
+            console.warn(`Motion source "${sourceConfig.type}" not found, skipping it`);
+            return [];
+        }
+        const total = sourceConfig.count ?? 1;
+        return Array.from({ length: total }, (_, index) => factory({
+            index,
+            total,
+            params: sourceConfig.params ?? {},
+            config,
+            random
+        }));
+    });
+};
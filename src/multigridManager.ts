@@ -0,0 +1,186 @@
+// Multigrid pressure solver utilities using functional programming
+
+// Import shader source code
+import {
+    prolongShader as prolongShaderSource,
+    residualShader as residualShaderSource,
+    restrictShader as restrictShaderSource
+} from './shaders';
+import { boundaryModeIndex, withBoundaryChunk } from './physicsManager';
+import {
+    BaseFBO,
+    DoubleFBO,
+    MultigridLevel,
+    MultigridPrograms,
+    ObstacleTexture,
+    PhysicsConfig,
+    PhysicsPrograms
+} from './types';
+
+const MAX_LEVELS = 6;
+const MIN_LEVEL_SIZE = 8;
+const SMOOTHING_ITERATIONS = 2;
+const COARSE_ITERATIONS = 16;
+const SMOOTHING_WEIGHT = 0.8;
+
+/**
+ * Initialize multigrid shaders
+ * @param gl - WebGL context
+ * @param baseVertexShader - Base vertex shader
+ * @param compileShader - Function to compile shader
+ */
+export const initMultigridShaders = (
+    gl: WebGLRenderingContext,
+    baseVertexShader: WebGLShader,
+    compileShader: (type: number, source: string) => WebGLShader
+): {
+    residualShader: WebGLShader;
+    restrictShader: WebGLShader;
+    prolongShader: WebGLShader;
+} => {
+    const compiledResidualShader = compileShader(gl.FRAGMENT_SHADER, withBoundaryChunk(residualShaderSource));
+    const compiledRestrictShader = compileShader(gl.FRAGMENT_SHADER, restrictShaderSource);
+    const compiledProlongShader = compileShader(gl.FRAGMENT_SHADER, prolongShaderSource);
+
+    return {
+        residualShader: compiledResidualShader,
+        restrictShader: compiledRestrictShader,
+        prolongShader: compiledProlongShader
+    };
+};
+
+/**
+ * Initialize the grid pyramid below the simulation resolution
+ * @param width - Simulation width in texels
+ * @param height - Simulation height in texels
+ * @param createFBO - Function to create framebuffer object
+ * @param createDoubleFBO - Function to create double framebuffer object
+ * @param ext - WebGL extensions
+ * @returns Residual target for the full resolution grid and the coarser levels, finest first
+ */
+export const initMultigridFramebuffers = (
+    gl: WebGLRenderingContext,
+    width: number,
+    height: number,
+    createFBO: (w: number, h: number, internalFormat: number, format: number, type: number, param: number) => BaseFBO,
+    createDoubleFBO: (w: number, h: number, internalFormat: number, format: number, type: number, param: number) => DoubleFBO,
+    ext: { halfFloatTexType: number; formatR: { internalFormat: number; format: number }; supportLinearFiltering: boolean }
+): { residual: BaseFBO; levels: MultigridLevel[] } => {
+    // Linear filtering makes prolongation a bilinear interpolation for free
+    const filtering = ext.supportLinearFiltering ? gl.LINEAR : gl.NEAREST;
+    const { internalFormat, format } = ext.formatR;
+    const type = ext.halfFloatTexType;
+
+    const residual = createFBO(width, height, internalFormat, format, type, gl.NEAREST);
+    const levels: MultigridLevel[] = [];
+
+    for (let i = 1; i <= MAX_LEVELS; i++) {
+        const w = width >> i;
+        const h = height >> i;
+        if (w < MIN_LEVEL_SIZE || h < MIN_LEVEL_SIZE) break;
+
+        levels.push({
+            pressure: createDoubleFBO(w, h, internalFormat, format, type, filtering),
+            rhs: createFBO(w, h, internalFormat, format, type, gl.NEAREST),
+            residual: createFBO(w, h, internalFormat, format, type, gl.NEAREST)
+        });
+    }
+
+    return { residual, levels };
+};
+
+/**
+ * Relax pressure with weighted Jacobi passes of the pressure program
+ */
+const smooth = (
+    gl: WebGLRenderingContext,
+    config: PhysicsConfig,
+    pressure: DoubleFBO,
+    rhs: BaseFBO,
+    obstacles: ObstacleTexture,
+    iterations: number,
+    programs: PhysicsPrograms,
+    blit: (target: BaseFBO | null) => void
+): void => {
+    programs.pressure.bind();
+    gl.uniform2f(programs.pressure.uniforms.texelSize, pressure.texelSizeX, pressure.texelSizeY);
+    gl.uniform1i(programs.pressure.uniforms.uDivergence, rhs.attach(0));
+    gl.uniform1i(programs.pressure.uniforms.uObstacles, obstacles.attach(2));
+    gl.uniform1i(programs.pressure.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
+    gl.uniform1f(programs.pressure.uniforms.weight, SMOOTHING_WEIGHT);
+
+    for (let i = 0; i < iterations; i++) {
+        gl.uniform1i(programs.pressure.uniforms.uPressure, pressure.read.attach(1));
+        blit(pressure.write);
+        pressure.swap();
+    }
+};
+
+/**
+ * Solve pressure with multigrid V-cycles, starting from the current pressure
+ * @param gl - WebGL context
+ * @param config - Physics configuration
+ * @param pressure - Full resolution pressure, used as the initial guess
+ * @param divergence - Full resolution velocity divergence
+ * @param multigrid - Framebuffers from initMultigridFramebuffers
+ * @param obstacles - Obstacle mask
+ * @param programs - Physics programs, the pressure program is the smoother
+ * @param multigridPrograms - Residual, restriction and prolongation programs
+ * @param blit - Blit function
+ */
+export const applyMultigridPressure = (
+    gl: WebGLRenderingContext,
+    config: PhysicsConfig,
+    pressure: DoubleFBO,
+    divergence: BaseFBO,
+    multigrid: { residual: BaseFBO; levels: MultigridLevel[] },
+    obstacles: ObstacleTexture,
+    programs: PhysicsPrograms,
+    multigridPrograms: MultigridPrograms,
+    blit: (target: BaseFBO | null) => void
+): void => {
+    const vCycle = (depth: number, p: DoubleFBO, rhs: BaseFBO, residual: BaseFBO): void => {
+        const coarse = multigrid.levels[depth];
+        if (!coarse) {
+            smooth(gl, config, p, rhs, obstacles, COARSE_ITERATIONS, programs, blit);
+            return;
+        }
+
+        smooth(gl, config, p, rhs, obstacles, SMOOTHING_ITERATIONS, programs, blit);
+
+        // Residual at this level
+        multigridPrograms.residual.bind();
+        gl.uniform2f(multigridPrograms.residual.uniforms.texelSize, p.texelSizeX, p.texelSizeY);
+        gl.uniform1i(multigridPrograms.residual.uniforms.uPressure, p.read.attach(0));
+        gl.uniform1i(multigridPrograms.residual.uniforms.uDivergence, rhs.attach(1));
+        gl.uniform1i(multigridPrograms.residual.uniforms.uObstacles, obstacles.attach(2));
+        gl.uniform1i(multigridPrograms.residual.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
+        blit(residual);
+
+        // Restrict it to the next coarser level
+        multigridPrograms.restrict.bind();
+        gl.uniform2f(multigridPrograms.restrict.uniforms.texelSize, residual.texelSizeX, residual.texelSizeY);
+        gl.uniform1i(multigridPrograms.restrict.uniforms.uTexture, residual.attach(0));
+        blit(coarse.rhs);
+
+        // Solve for the correction from a zero initial guess
+        gl.bindFramebuffer(gl.FRAMEBUFFER, coarse.pressure.read.fbo);
+        gl.viewport(0, 0, coarse.pressure.width, coarse.pressure.height);
+        gl.clearColor(0.0, 0.0, 0.0, 1.0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        vCycle(depth + 1, coarse.pressure, coarse.rhs, coarse.residual);
+
+        // Prolong the correction back onto this level
+        multigridPrograms.prolong.bind();
+        gl.uniform1i(multigridPrograms.prolong.uniforms.uPressure, p.read.attach(0));
+        gl.uniform1i(multigridPrograms.prolong.uniforms.uCorrection, coarse.pressure.read.attach(1));
+        blit(p.write);
+        p.swap();
+
+        smooth(gl, config, p, rhs, obstacles, SMOOTHING_ITERATIONS, programs, blit);
+    };
+
+    for (let i = 0; i < config.MULTIGRID_CYCLES; i++) {
+        vCycle(0, pressure, divergence, multigrid.residual);
+    }
+};
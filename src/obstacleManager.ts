@@ -0,0 +1,125 @@
+// Obstacle mask management utilities using functional programming
+import { ObstacleSource, ObstacleTexture } from './types';
+
+/**
+ * Create the obstacle mask texture, initially empty (no obstacles)
+ * @param gl - WebGL context
+ */
+export const initObstacleTexture = (gl: WebGLRenderingContext): ObstacleTexture => {
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+
+    const obstacles: ObstacleTexture = {
+        texture,
+        width: 1,
+        height: 1,
+        attach: (id: number) => {
+            gl.activeTexture(gl.TEXTURE0 + id);
+            gl.bindTexture(gl.TEXTURE_2D, obstacles.texture);
+            return id;
+        }
+    };
+    return obstacles;
+};
+
+/**
+ * Resolve a source into something drawable. SVG markup or URLs are loaded
+ * into an image, which is why this is asynchronous.
+ * @param source - Obstacle source
+ */
+export const loadObstacleSource = async (source: ObstacleSource): Promise<ObstacleSource> => {
+    if (source.type !== 'svg') return source;
+
+    const isMarkup = source.svg.trimStart().startsWith('<');
+    const url = isMarkup
+        ? URL.createObjectURL(new Blob([source.svg], { type: 'image/svg+xml' }))
+        : source.svg;
+
+    try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        return { type: 'image', image };
+    } catch {
+        throw new Error(`Failed to load obstacle SVG: ${isMarkup ? 'inline markup' : url}`);
+    } finally {
+        if (isMarkup) URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Rasterize an obstacle source into a 2D canvas. Solid areas are opaque.
+ * @param source - Obstacle source, already resolved by loadObstacleSource
+ * @param width - Mask width in pixels
+ * @param height - Mask height in pixels
+ * @param cssWidth - Canvas width in CSS pixels, used to scale rectangles
+ * @param cssHeight - Canvas height in CSS pixels, used to scale rectangles
+ */
+export const drawObstacleMask = (
+    source: ObstacleSource,
+    width: number,
+    height: number,
+    cssWidth: number,
+    cssHeight: number
+): HTMLCanvasElement => {
+    const mask = document.createElement('canvas');
+    mask.width = width;
+    mask.height = height;
+    const ctx = mask.getContext('2d');
+    if (!ctx) {
+        throw new Error('2D canvas not supported');
+    }
+
+    switch (source.type) {
+        case 'image':
+            ctx.drawImage(source.image, 0, 0, width, height);
+            break;
+        case 'rects': {
+            const scaleX = width / Math.max(cssWidth, 1);
+            const scaleY = height / Math.max(cssHeight, 1);
+            ctx.fillStyle = '#fff';
+            source.rects.forEach((rect) => {
+                ctx.fillRect(rect.x * scaleX, rect.y * scaleY, rect.width * scaleX, rect.height * scaleY);
+            });
+            break;
+        }
+        case 'svg':
+            throw new Error('SVG obstacles must be resolved with loadObstacleSource first');
+    }
+
+    return mask;
+};
+
+/**
+ * Upload a rasterized mask, or clear the obstacles when mask is null
+ * @param gl - WebGL context
+ * @param obstacles - Obstacle texture to update
+ * @param mask - Canvas from drawObstacleMask
+ */
+export const uploadObstacleMask = (
+    gl: WebGLRenderingContext,
+    obstacles: ObstacleTexture,
+    mask: HTMLCanvasElement | null
+): void => {
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, obstacles.texture);
+
+    if (!mask) {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+        obstacles.width = 1;
+        obstacles.height = 1;
+        return;
+    }
+
+    // Canvas rows start at the top, texture coordinates at the bottom
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, mask);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    obstacles.width = mask.width;
+    obstacles.height = mask.height;
+};
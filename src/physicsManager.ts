@@ -2,13 +2,34 @@
 
 // Import shader source code from existing files
 import {
+    boundaryChunk,
+    buoyancyShader as buoyancyShaderSource,
     curlShader as curlShaderSource,
+    diffusionShader as diffusionShaderSource,
     divergenceShader as divergenceShaderSource,
     gradientSubtractShader as gradientSubtractShaderSource,
     pressureShader as pressureShaderSource,
     vorticityShader as vorticityShaderSource
 } from './shaders';
-import { BaseFBO, DoubleFBO, PhysicsConfig, PhysicsPrograms } from './types';
+import { BaseFBO, BoundaryMode, DoubleFBO, ObstacleTexture, PhysicsConfig, PhysicsPrograms } from './types';
+
+/**
+ * Values of the `boundaryMode` shader uniform
+ */
+export const boundaryModeIndex: Record<BoundaryMode, number> = {
+    walls: 0,
+    periodic: 1,
+    open: 2
+};
+
+/**
+ * Prepend the boundary mode defines, uniform and `boundaryUv` helper to a
+ * shader that reads neighboring texels
+ * @param source - Fragment shader source
+ */
+export const withBoundaryChunk = (source: string): string => {
+    return `${boundaryChunk}\n${source}`;
+};
 
 /**
  * Initialize physics shaders
@@ -22,19 +43,28 @@ export const initPhysicsShaders = (
     divergenceShader: WebGLShader;
     curlShader: WebGLShader;
     vorticityShader: WebGLShader;
+    buoyancyShader: WebGLShader;
+    diffusionShader: WebGLShader;
     gradientSubtractShader: WebGLShader;
 } => {
-    const compiledPressureShader = compileShader(gl.FRAGMENT_SHADER, pressureShaderSource);
-    const compiledDivergenceShader = compileShader(gl.FRAGMENT_SHADER, divergenceShaderSource);
-    const compiledCurlShader = compileShader(gl.FRAGMENT_SHADER, curlShaderSource);
-    const compiledVorticityShader = compileShader(gl.FRAGMENT_SHADER, vorticityShaderSource);
-    const compiledGradientSubtractShader = compileShader(gl.FRAGMENT_SHADER, gradientSubtractShaderSource);
+    const compiledPressureShader = compileShader(gl.FRAGMENT_SHADER, withBoundaryChunk(pressureShaderSource));
+    const compiledDivergenceShader = compileShader(gl.FRAGMENT_SHADER, withBoundaryChunk(divergenceShaderSource));
+    const compiledCurlShader = compileShader(gl.FRAGMENT_SHADER, withBoundaryChunk(curlShaderSource));
+    const compiledVorticityShader = compileShader(gl.FRAGMENT_SHADER, withBoundaryChunk(vorticityShaderSource));
+    const compiledBuoyancyShader = compileShader(gl.FRAGMENT_SHADER, buoyancyShaderSource);
+    const compiledDiffusionShader = compileShader(gl.FRAGMENT_SHADER, withBoundaryChunk(diffusionShaderSource));
+    const compiledGradientSubtractShader = compileShader(
+        gl.FRAGMENT_SHADER,
+        withBoundaryChunk(gradientSubtractShaderSource)
+    );
 
     return {
         pressureShader: compiledPressureShader,
         divergenceShader: compiledDivergenceShader,
         curlShader: compiledCurlShader,
         vorticityShader: compiledVorticityShader,
+        buoyancyShader: compiledBuoyancyShader,
+        diffusionShader: compiledDiffusionShader,
         gradientSubtractShader: compiledGradientSubtractShader
     };
 };
@@ -48,12 +78,16 @@ export const applyPressure = (
     pressure: DoubleFBO,
     divergence: BaseFBO,
     velocity: DoubleFBO,
+    obstacles: ObstacleTexture,
     programs: PhysicsPrograms,
     blit: (target: BaseFBO | null) => void
 ): void => {
     programs.pressure.bind();
     gl.uniform2f(programs.pressure.uniforms.texelSize, velocity.texelSizeX, velocity.texelSizeY);
     gl.uniform1i(programs.pressure.uniforms.uDivergence, divergence.attach(0));
+    gl.uniform1i(programs.pressure.uniforms.uObstacles, obstacles.attach(2));
+    gl.uniform1i(programs.pressure.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
+    gl.uniform1f(programs.pressure.uniforms.weight, 1.0);
 
     for (let i = 0; i < config.PRESSURE_ITERATIONS; i++) {
         gl.uniform1i(programs.pressure.uniforms.uPressure, pressure.read.attach(1));
@@ -67,14 +101,18 @@ export const applyPressure = (
  */
 export const applyDivergence = (
     gl: WebGLRenderingContext,
+    config: PhysicsConfig,
     velocity: DoubleFBO,
     divergence: BaseFBO,
+    obstacles: ObstacleTexture,
     programs: PhysicsPrograms,
     blit: (target: BaseFBO | null) => void
 ): void => {
     programs.divergence.bind();
     gl.uniform2f(programs.divergence.uniforms.texelSize, velocity.texelSizeX, velocity.texelSizeY);
     gl.uniform1i(programs.divergence.uniforms.uVelocity, velocity.read.attach(0));
+    gl.uniform1i(programs.divergence.uniforms.uObstacles, obstacles.attach(1));
+    gl.uniform1i(programs.divergence.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
     blit(divergence);
 };
 
@@ -83,6 +121,7 @@ export const applyDivergence = (
  */
 export const applyCurl = (
     gl: WebGLRenderingContext,
+    config: PhysicsConfig,
     velocity: DoubleFBO,
     curl: BaseFBO,
     programs: PhysicsPrograms,
@@ -91,6 +130,7 @@ export const applyCurl = (
     programs.curl.bind();
     gl.uniform2f(programs.curl.uniforms.texelSize, velocity.texelSizeX, velocity.texelSizeY);
     gl.uniform1i(programs.curl.uniforms.uVelocity, velocity.read.attach(0));
+    gl.uniform1i(programs.curl.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
     blit(curl);
 };
 
@@ -112,17 +152,80 @@ export const applyVorticity = (
     gl.uniform1i(programs.vorticity.uniforms.uCurl, curl.attach(1));
     gl.uniform1f(programs.vorticity.uniforms.curl, config.CURL);
     gl.uniform1f(programs.vorticity.uniforms.dt, dt);
+    gl.uniform1i(programs.vorticity.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
+    blit(velocity.write);
+    velocity.swap();
+};
+
+/**
+ * Apply buoyancy step, pushing fluid warmer than ambient against gravity
+ */
+export const applyBuoyancy = (
+    gl: WebGLRenderingContext,
+    config: PhysicsConfig,
+    dt: number,
+    velocity: DoubleFBO,
+    temperature: DoubleFBO,
+    programs: PhysicsPrograms,
+    blit: (target: BaseFBO | null) => void
+): void => {
+    programs.buoyancy.bind();
+    gl.uniform1i(programs.buoyancy.uniforms.uVelocity, velocity.read.attach(0));
+    gl.uniform1i(programs.buoyancy.uniforms.uTemperature, temperature.read.attach(1));
+    gl.uniform2f(programs.buoyancy.uniforms.gravity, config.GRAVITY.x, config.GRAVITY.y);
+    gl.uniform1f(programs.buoyancy.uniforms.buoyancy, config.BUOYANCY);
+    gl.uniform1f(programs.buoyancy.uniforms.ambient, config.AMBIENT_TEMPERATURE);
+    gl.uniform1f(programs.buoyancy.uniforms.dt, dt);
     blit(velocity.write);
     velocity.swap();
 };
 
 /**
- * Apply gradient subtraction step
+ * Apply implicit diffusion to a field with Jacobi iterations, starting from
+ * the field itself. The iterate ping-pongs between `scratch` and
+ * `field.write` so `field.read` keeps the right-hand side, which is why the
+ * iteration count is rounded up to an even number.
+ * @param amount - Diffusion rate in texels squared per second
+ * @param scratch - Framebuffer matching the size and format of the field
+ */
+export const applyDiffusion = (
+    gl: WebGLRenderingContext,
+    config: PhysicsConfig,
+    dt: number,
+    amount: number,
+    field: DoubleFBO,
+    scratch: BaseFBO,
+    obstacles: ObstacleTexture,
+    programs: PhysicsPrograms,
+    blit: (target: BaseFBO | null) => void
+): void => {
+    programs.diffusion.bind();
+    gl.uniform2f(programs.diffusion.uniforms.texelSize, field.texelSizeX, field.texelSizeY);
+    gl.uniform1i(programs.diffusion.uniforms.uSource, field.read.attach(0));
+    gl.uniform1i(programs.diffusion.uniforms.uObstacles, obstacles.attach(2));
+    gl.uniform1i(programs.diffusion.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
+    gl.uniform1f(programs.diffusion.uniforms.alpha, amount * dt);
+
+    const iterations = Math.max(2, Math.ceil(config.DIFFUSION_ITERATIONS / 2) * 2);
+    let current: BaseFBO = field.read;
+    for (let i = 0; i < iterations; i++) {
+        const target = i % 2 === 0 ? scratch : field.write;
+        gl.uniform1i(programs.diffusion.uniforms.uTexture, current.attach(1));
+        blit(target);
+        current = target;
+    }
+    field.swap();
+};
+
+/**
+ * Apply gradient subtraction step, enforcing the obstacle boundary condition
  */
 export const applyGradientSubtract = (
     gl: WebGLRenderingContext,
+    config: PhysicsConfig,
     pressure: DoubleFBO,
     velocity: DoubleFBO,
+    obstacles: ObstacleTexture,
     programs: PhysicsPrograms,
     blit: (target: BaseFBO | null) => void
 ): void => {
@@ -130,6 +233,9 @@ export const applyGradientSubtract = (
     gl.uniform2f(programs.gradientSubtract.uniforms.texelSize, velocity.texelSizeX, velocity.texelSizeY);
     gl.uniform1i(programs.gradientSubtract.uniforms.uPressure, pressure.read.attach(0));
     gl.uniform1i(programs.gradientSubtract.uniforms.uVelocity, velocity.read.attach(1));
+    gl.uniform1i(programs.gradientSubtract.uniforms.uObstacles, obstacles.attach(2));
+    gl.uniform1f(programs.gradientSubtract.uniforms.noSlip, config.OBSTACLE_BOUNDARY === 'no-slip' ? 1 : 0);
+    gl.uniform1i(programs.gradientSubtract.uniforms.boundaryMode, boundaryModeIndex[config.BOUNDARY_MODE]);
     blit(velocity.write);
     velocity.swap();
 }; 
\ No newline at end of file
@@ -1,53 +1,60 @@
-import { DuffingOscillator } from './DuffingOscillator';
-import { Config, PointerData, RGBColor, SplatData } from './types';
+import { createMotionSources } from './motionSourceRegistry';
+import { updatePointerDownData, updatePointerMoveData, updatePointerUpData } from './splatManager';
+import { Config, MotionSource, PointerData, RGBColor, SplatData } from './types';
+
+type EmitterColorConfig = Pick<Config, 'COLOR_MODE' | 'COLOR_SPEED_RANGE' | 'COLOR_CYCLE_PERIOD' | 'EMITTER_COLOR_DRIFT'>;
 
 export class PointerManager {
     private pointers: PointerData[] = [];
+    private userPointers: Map<number, PointerData> = new Map();
     private canvas: HTMLCanvasElement;
     private getColorCallback: () => RGBColor;
     private onSplatCallback: (splatData: SplatData) => void;
-    private oscillators: DuffingOscillator[];
-    private lastTime: number;
-    private animationFrameId: number | null = null;
+    private motionSources: MotionSource[];
     private fixedColors: RGBColor[];
+    private random: () => number;
+    private listening: boolean = false;
+    private sampleColorCallback: ((t: number) => RGBColor) | null;
+    private colorPhases: number[];
+    private colorConfig: EmitterColorConfig;
+    private elapsed: number = 0;
 
     constructor(
         canvas: HTMLCanvasElement, 
         getColorCallback: () => RGBColor,
         onSplatCallback: (splatData: SplatData) => void,
-        config: Config
+        config: Config,
+        random: () => number = Math.random,
+        sampleColorCallback: ((t: number) => RGBColor) | null = null
     ) {
         this.canvas = canvas;
         this.getColorCallback = getColorCallback;
         this.onSplatCallback = onSplatCallback;
+        this.random = random;
+        this.sampleColorCallback = sampleColorCallback;
+        this.colorConfig = this.pickColorConfig(config);
         
-        // Pre-generate fixed colors for each oscillator
-        this.fixedColors = Array.from(
-            { length: config.DUFFING.NUM_OSCILLATORS }, 
-            () => this.getColorCallback()
-        );
-        
-        // Create multiple oscillators with different parameters
-        this.oscillators = Array.from({ length: config.DUFFING.NUM_OSCILLATORS }, (_, i) => {
-            return new DuffingOscillator({
-                delta: config.DUFFING.DELTA,
-                beta: config.DUFFING.BETA,
-                alpha: config.DUFFING.ALPHA,
-                gamma: config.DUFFING.GAMMA,
-                omega: config.DUFFING.OMEGA,
-                index: i,
-                total: config.DUFFING.NUM_OSCILLATORS
-            });
-        });
-        
-        // Create a pointer for each oscillator with its fixed color
-        this.pointers = this.oscillators.map((_, i) => this.createPointer(i));
+        const useOscillators = config.INPUT_MODE !== 'user';
+        const useUserInput = config.INPUT_MODE !== 'oscillators';
+
+        // Create every configured motion source (Duffing oscillators by default)
+        this.motionSources = useOscillators ? createMotionSources(config, random) : [];
+
+        // Pre-generate fixed colors for each motion source
+        this.fixedColors = this.motionSources.map(() => this.getColorCallback());
+
+        // Drifting colors start spread evenly along the gradient
+        this.colorPhases = this.motionSources.map((_, i, sources) => i / sources.length);
         
-        this.lastTime = performance.now();
-        this.startAnimation();
+        // Create a pointer for each motion source with its fixed color
+        this.pointers = this.motionSources.map((_, i) => this.createPointer(this.fixedColors[i]));
+
+        if (useUserInput) {
+            this.attachPointerListeners();
+        }
     }
 
-    private createPointer(index: number): PointerData {
+    private createPointer(color: RGBColor): PointerData {
         return {
             id: -1,
             texcoordX: 0.5,
@@ -58,10 +65,139 @@ export class PointerManager {
             deltaY: 0,
             down: true,
             moved: false,
-            color: this.fixedColors[index]
+            color,
+            pressure: 1
         };
     }
 
+    /**
+     * Apply a new config in place. Motion sources keep their motion and color
+     * when the source at the same position has the same type; others are
+     * created fresh. Pointer listeners follow INPUT_MODE.
+     */
+    public updateConfig(config: Config): void {
+        const useOscillators = config.INPUT_MODE !== 'user';
+        const useUserInput = config.INPUT_MODE !== 'oscillators';
+
+        const nextSources = useOscillators ? createMotionSources(config, this.random) : [];
+        this.motionSources = nextSources.map((source, i) => {
+            const current = this.motionSources[i];
+            if (current?.retune && current.constructor === source.constructor) {
+                current.retune(source);
+                return current;
+            }
+            return source;
+        });
+        this.fixedColors = this.motionSources.map((_, i) => this.fixedColors[i] ?? this.getColorCallback());
+        this.colorPhases = this.motionSources.map((_, i, sources) => this.colorPhases[i] ?? i / sources.length);
+        this.pointers = this.motionSources.map((_, i) => this.pointers[i] ?? this.createPointer(this.fixedColors[i]));
+
+        if (useUserInput && !this.listening) {
+            this.attachPointerListeners();
+        } else if (!useUserInput && this.listening) {
+            this.detachPointerListeners();
+            this.userPointers.clear();
+        }
+    }
+
+    /**
+     * Apply COLOR_MODE, COLOR_SPEED_RANGE, COLOR_CYCLE_PERIOD and
+     * EMITTER_COLOR_DRIFT without touching the motion sources
+     */
+    public updateColorConfig(config: Config): void {
+        this.colorConfig = this.pickColorConfig(config);
+    }
+
+    private pickColorConfig({
+        COLOR_MODE,
+        COLOR_SPEED_RANGE,
+        COLOR_CYCLE_PERIOD,
+        EMITTER_COLOR_DRIFT
+    }: Config): EmitterColorConfig {
+        return { COLOR_MODE, COLOR_SPEED_RANGE, COLOR_CYCLE_PERIOD, EMITTER_COLOR_DRIFT };
+    }
+
+    /**
+     * Colors of the motion sources, in source order
+     */
+    public getSourceColors(): RGBColor[] {
+        return [...this.fixedColors];
+    }
+
+    /**
+     * Recolor the motion sources in place; sources without an entry keep their color
+     */
+    public setSourceColors(colors: RGBColor[]): void {
+        this.fixedColors = this.fixedColors.map((color, i) => colors[i] ?? color);
+        this.pointers.forEach((pointer, i) => {
+            pointer.color = this.fixedColors[i];
+        });
+    }
+
+    private attachPointerListeners(): void {
+        this.listening = true;
+        // Keep touch and pen gestures on the canvas instead of scrolling the page
+        this.canvas.style.touchAction = 'none';
+        this.canvas.addEventListener('pointerdown', this.handlePointerDown);
+        this.canvas.addEventListener('pointermove', this.handlePointerMove);
+        this.canvas.addEventListener('pointerup', this.handlePointerUp);
+        this.canvas.addEventListener('pointercancel', this.handlePointerUp);
+    }
+
+    private detachPointerListeners(): void {
+        this.listening = false;
+        this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+        this.canvas.removeEventListener('pointermove', this.handlePointerMove);
+        this.canvas.removeEventListener('pointerup', this.handlePointerUp);
+        this.canvas.removeEventListener('pointercancel', this.handlePointerUp);
+    }
+
+    private handlePointerDown = (event: PointerEvent): void => {
+        if (event.pointerType === 'mouse' && event.button !== 0) return;
+        this.canvas.setPointerCapture?.(event.pointerId);
+
+        const color = this.getColorCallback();
+        const pointer = this.createPointer(color);
+        updatePointerDownData(
+            pointer,
+            event.pointerId,
+            this.scaleByPixelRatio(event.offsetX),
+            this.scaleByPixelRatio(event.offsetY),
+            this.canvas,
+            () => color
+        );
+        pointer.pressure = this.getPressure(event);
+        this.userPointers.set(event.pointerId, pointer);
+    };
+
+    private handlePointerMove = (event: PointerEvent): void => {
+        const pointer = this.userPointers.get(event.pointerId);
+        if (!pointer || !pointer.down) return;
+
+        updatePointerMoveData(
+            pointer,
+            this.scaleByPixelRatio(event.offsetX),
+            this.scaleByPixelRatio(event.offsetY),
+            this.canvas
+        );
+        pointer.pressure = this.getPressure(event);
+    };
+
+    private handlePointerUp = (event: PointerEvent): void => {
+        const pointer = this.userPointers.get(event.pointerId);
+        if (!pointer) return;
+        updatePointerUpData(pointer);
+    };
+
+    /**
+     * Pens report 0-1 pressure with 0.5 as a regular press, so a regular press
+     * maps to the configured SPLAT_FORCE/SPLAT_RADIUS. Mouse and touch always use 1.
+     */
+    private getPressure(event: PointerEvent): number {
+        if (event.pointerType !== 'pen') return 1;
+        return Math.min(Math.max(event.pressure * 2, 0.1), 2);
+    }
+
     private scaleByPixelRatio(input: number): number {
         const pixelRatio = window.devicePixelRatio || 1;
         return Math.floor(input * pixelRatio);
@@ -79,55 +215,89 @@ export class PointerManager {
         return delta;
     }
 
-    private startAnimation(): void {
-        const animate = () => {
-            const currentTime = performance.now();
-            const deltaTime = Math.min((currentTime - this.lastTime) / 1000, 0.016666);
-            this.lastTime = currentTime;
-
-            // Update each oscillator and generate splats
-            this.oscillators.forEach((oscillator, index) => {
-                const { x, y, dx, dy } = oscillator.update(deltaTime);
-                const pointer = this.pointers[index];
-
-                pointer.prevTexcoordX = pointer.texcoordX;
-                pointer.prevTexcoordY = pointer.texcoordY;
-                
-                // Map to canvas space with offset from center
-                pointer.texcoordX = Math.min(Math.max(x + 0.5, 0), 1);
-                pointer.texcoordY = Math.min(Math.max(y + 0.5, 0), 1);
-                
-                pointer.deltaX = this.correctDeltaX(dx * 0.5);
-                pointer.deltaY = this.correctDeltaY(dy * 0.5);
-                pointer.moved = true;
-
-                // Generate splat with fixed color
-                this.onSplatCallback({
-                    texcoordX: pointer.texcoordX,
-                    texcoordY: pointer.texcoordY,
-                    prevTexcoordX: pointer.prevTexcoordX,
-                    prevTexcoordY: pointer.prevTexcoordY,
-                    deltaX: pointer.deltaX,
-                    deltaY: pointer.deltaY,
-                    color: this.fixedColors[index]
-                });
-            });
+    /**
+     * Advance the motion sources by one step of the shared simulation clock
+     * and emit their splats
+     * @param dt - Step size in seconds
+     */
+    public updateEmitters(dt: number): void {
+        this.elapsed += dt;
+        this.motionSources.forEach((source, index) => {
+            const { x, y, dx, dy } = source.update(dt);
+            const pointer = this.pointers[index];
 
-            this.animationFrameId = requestAnimationFrame(animate);
-        };
+            pointer.prevTexcoordX = pointer.texcoordX;
+            pointer.prevTexcoordY = pointer.texcoordY;
+            
+            // Map to canvas space with offset from center
+            pointer.texcoordX = Math.min(Math.max(x + 0.5, 0), 1);
+            pointer.texcoordY = Math.min(Math.max(y + 0.5, 0), 1);
+            
+            pointer.deltaX = this.correctDeltaX(dx * 0.5);
+            pointer.deltaY = this.correctDeltaY(dy * 0.5);
+            pointer.moved = true;
+
+            if (this.sampleColorCallback) {
+                this.updateEmitterColor(index, dt, this.sampleColorCallback);
+            }
 
-        this.animationFrameId = requestAnimationFrame(animate);
+            // Generate splat with the emitter's current color
+            this.onSplatCallback({
+                texcoordX: pointer.texcoordX,
+                texcoordY: pointer.texcoordY,
+                prevTexcoordX: pointer.prevTexcoordX,
+                prevTexcoordY: pointer.prevTexcoordY,
+                deltaX: pointer.deltaX,
+                deltaY: pointer.deltaY,
+                color: pointer.color
+            });
+        });
     }
 
-    public stopAnimation(): void {
-        if (this.animationFrameId !== null) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = null;
+    /**
+     * Pick the color of an emitter's next splat from its gradient position
+     * under COLOR_MODE. Per-splat modes leave fixedColors alone, so switching
+     * back to 'fixed' restores the emitter colors.
+     */
+    private updateEmitterColor(index: number, dt: number, sample: (t: number) => RGBColor): void {
+        const { COLOR_MODE, COLOR_SPEED_RANGE, COLOR_CYCLE_PERIOD, EMITTER_COLOR_DRIFT } = this.colorConfig;
+        const pointer = this.pointers[index];
+        const x = pointer.texcoordX - 0.5;
+        const y = pointer.texcoordY - 0.5;
+
+        switch (COLOR_MODE) {
+            case 'speed': {
+                const distance = Math.hypot(pointer.texcoordX - pointer.prevTexcoordX, pointer.texcoordY - pointer.prevTexcoordY);
+                pointer.color = sample(Math.min(distance / dt / COLOR_SPEED_RANGE, 1));
+                return;
+            }
+            case 'radial':
+                pointer.color = sample(Math.hypot(x, y) / Math.SQRT1_2);
+                return;
+            case 'angular':
+                pointer.color = sample((Math.atan2(y, x) / (2 * Math.PI) + 1) % 1);
+                return;
+            case 'index':
+                pointer.color = sample(this.motionSources.length > 1 ? index / (this.motionSources.length - 1) : 0);
+                return;
+            case 'time':
+                pointer.color = sample((this.elapsed / COLOR_CYCLE_PERIOD) % 1);
+                return;
+        }
+
+        // 'fixed' and 'intensity' keep one color per emitter, which may drift
+        // along the gradient, bouncing between its ends so it never jumps
+        if (EMITTER_COLOR_DRIFT > 0) {
+            const phase = (this.colorPhases[index] + EMITTER_COLOR_DRIFT * dt) % 2;
+            this.colorPhases[index] = phase;
+            this.fixedColors[index] = sample(1 - Math.abs(phase - 1));
         }
+        pointer.color = this.fixedColors[index];
     }
 
     public generateSplat(posX: number, posY: number, color?: RGBColor): void {
-        const pointer = this.createPointer(0); // Use first color for manual splats
+        // Use first color for manual splats
+        const pointer = this.createPointer(this.fixedColors[0] ?? this.getColorCallback());
         const scaledPosX = this.scaleByPixelRatio(posX);
         const scaledPosY = this.scaleByPixelRatio(posY);
         
@@ -151,8 +321,33 @@ export class PointerManager {
         });
     }
 
+    /**
+     * Emit splats for user pointers that moved since the last frame.
+     * Motion source splats are emitted by updateEmitters.
+     */
     public applyInputs(): void {
-        // This method is now just a stub to maintain compatibility
-        // The actual updates are happening in the animation loop
+        this.userPointers.forEach((pointer, id) => {
+            if (pointer.moved) {
+                pointer.moved = false;
+                this.onSplatCallback({
+                    texcoordX: pointer.texcoordX,
+                    texcoordY: pointer.texcoordY,
+                    prevTexcoordX: pointer.prevTexcoordX,
+                    prevTexcoordY: pointer.prevTexcoordY,
+                    deltaX: pointer.deltaX,
+                    deltaY: pointer.deltaY,
+                    color: pointer.color,
+                    pressure: pointer.pressure
+                });
+            }
+            if (!pointer.down) {
+                this.userPointers.delete(id);
+            }
+        });
+    }
+
+    public destroy(): void {
+        this.detachPointerListeners();
+        this.userPointers.clear();
     }
 }
\ No newline at end of file
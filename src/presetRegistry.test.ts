@@ -0,0 +1,125 @@
+import { registerColorScheme } from "./colorManager";
+import { DEFAULT_CONFIG } from "./configSchema";
+import {
+  CONFIG_FORMAT_VERSION,
+  exportConfig,
+  getPreset,
+  importConfig,
+  listPresets,
+  migrateConfig,
+  registerPreset,
+} from "./presetRegistry";
+import type { ColorConfiguration } from "./colorConfigurations";
+
+const serialize = (version: unknown, config: unknown = {}) =>
+  JSON.stringify({ version, config });
+
+describe("preset registry", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("merges a registered preset over the defaults", () => {
+    registerPreset("test-calm", { CURL: 0, DENSITY_DISSIPATION: 500 });
+
+    expect(listPresets()).toContain("test-calm");
+    expect(getPreset("test-calm")).toEqual({
+      ...DEFAULT_CONFIG,
+      CURL: 0,
+      DENSITY_DISSIPATION: 20,
+    });
+  });
+
+  it("returns copies that cannot change the registered preset", () => {
+    registerPreset("test-copy", { GRAVITY: { x: 0.5, y: 0 } });
+    getPreset("test-copy")!.GRAVITY.x = 1;
+
+    expect(getPreset("test-copy")!.GRAVITY.x).toBe(0.5);
+    expect(DEFAULT_CONFIG.GRAVITY.x).toBe(0);
+  });
+
+  it("returns undefined for unknown presets", () => {
+    expect(getPreset("no-such-preset")).toBeUndefined();
+  });
+});
+
+describe("exportConfig and importConfig", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("round-trips a config with its name", () => {
+    const json = exportConfig({ CURL: 3, BOUNDARY_MODE: "open" }, "windy");
+
+    expect(JSON.parse(json).version).toBe(CONFIG_FORMAT_VERSION);
+    expect(importConfig(json)).toEqual({
+      name: "windy",
+      config: { ...DEFAULT_CONFIG, CURL: 3, BOUNDARY_MODE: "open" },
+    });
+  });
+
+  it("stores built-in color schemes by name", () => {
+    const json = exportConfig({ COLOR_SCHEME: "fire" });
+
+    expect(JSON.parse(json).config.COLOR_SCHEME).toBe("fire");
+  });
+
+  it("inlines color schemes registered at runtime", () => {
+    const gradient = ["#102030", "#405060"];
+    registerColorScheme("test-export", { gradient });
+    const json = exportConfig({
+      COLOR_SCHEME: "test-export" as ColorConfiguration,
+      TEMPERATURE_COLOR_SCHEME: "test-export" as ColorConfiguration,
+    });
+    const { config } = JSON.parse(json);
+
+    expect(config.COLOR_SCHEME).toEqual({ gradient });
+    expect(config.TEMPERATURE_COLOR_SCHEME).toEqual({ gradient });
+    expect(importConfig(json).config.COLOR_SCHEME).toEqual({ gradient });
+  });
+
+  it("validates the imported config", () => {
+    const { config } = importConfig(
+      serialize(CONFIG_FORMAT_VERSION, { CURL: -5 })
+    );
+
+    expect(config.CURL).toBe(0);
+    expect(() =>
+      importConfig(serialize(CONFIG_FORMAT_VERSION, { CURL: -5 }), {
+        strict: true,
+      })
+    ).toThrow(/CURL/);
+  });
+
+  it("rejects JSON without a version or config", () => {
+    expect(() => importConfig("{}")).toThrow(/"version" and "config"/);
+    expect(() => importConfig("null")).toThrow(/"version" and "config"/);
+    expect(() => importConfig(serialize(1.5))).toThrow(/"version"/);
+    expect(() => importConfig(serialize(1, []))).toThrow(/"config"/);
+    expect(() => importConfig("not json")).toThrow();
+  });
+
+  it("rejects newer and unknown older versions", () => {
+    expect(() => importConfig(serialize(CONFIG_FORMAT_VERSION + 1))).toThrow(
+      /newer than the supported version/
+    );
+    expect(() => importConfig(serialize(0))).toThrow(/not supported/);
+    expect(() => importConfig(serialize(-3))).toThrow(/not supported/);
+  });
+});
+
+describe("migrateConfig", () => {
+  it("leaves configs of the current version unchanged", () => {
+    const config = { CURL: 1 };
+
+    expect(migrateConfig(CONFIG_FORMAT_VERSION, config)).toBe(config);
+  });
+});
@@ -0,0 +1,170 @@
+// Preset registry utilities using functional programming
+import { inlineColorScheme } from './colorManager';
+import { DEFAULT_CONFIG, validateConfig } from './configSchema';
+import { Config, ConfigValidationOptions, SerializedConfig } from './types';
+
+/**
+ * Version written by exportConfig and the newest one importConfig accepts
+ */
+export const CONFIG_FORMAT_VERSION = 1;
+
+/**
+ * Steps upgrading a serialized config from the version of its key to the
+ * next one. Bump CONFIG_FORMAT_VERSION together with adding a step here.
+ */
+const migrations: Record<number, (config: Record<string, unknown>) => Record<string, unknown>> = {};
+
+/**
+ * Upgrade a serialized config to CONFIG_FORMAT_VERSION
+ * @param version - Version the config was written with
+ * @param config - Serialized config
+ * @throws When the version is unknown or newer than the supported one
+ */
+export const migrateConfig = (version: number, config: Record<string, unknown>): Record<string, unknown> => {
+    if (version > CONFIG_FORMAT_VERSION) {
+        throw new Error(`Config version ${version} is newer than the supported version ${CONFIG_FORMAT_VERSION}`);
+    }
+    let migrated = config;
+    for (let from = version; from < CONFIG_FORMAT_VERSION; from++) {
+        if (!migrations[from]) {
+            throw new Error(`Config version ${version} is not supported`);
+        }
+        migrated = migrations[from](migrated);
+    }
+    return migrated;
+};
+
+/**
+ * Inline the color schemes registered at runtime so the config reproduces
+ * on pages that did not register them
+ * @param config - Config to save or share
+ */
+export const inlineColorSchemes = (config: Partial<Config>): Partial<Config> => ({
+    ...config,
+    ...(config.COLOR_SCHEME !== undefined && { COLOR_SCHEME: inlineColorScheme(config.COLOR_SCHEME) }),
+    ...(config.TEMPERATURE_COLOR_SCHEME !== undefined && {
+        TEMPERATURE_COLOR_SCHEME: inlineColorScheme(config.TEMPERATURE_COLOR_SCHEME)
+    })
+});
+
+const presets: Record<string, Partial<Config>> = {
+    'default': {},
+    'custom-colors': {
+        BACK_COLOR: { r: 0.1, g: 0.1, b: 0.15 },
+        COLOR_SCHEME: 'sunset'
+    },
+    'high-performance': {
+        SIM_RESOLUTION: 256,
+        DYE_RESOLUTION: 512,
+        DENSITY_DISSIPATION: 3,
+        VELOCITY_DISSIPATION: 0.8,
+        PRESSURE_ITERATIONS: 15,
+        SPLAT_RADIUS: 0.0005,
+        SPLAT_FORCE: 10000,
+        BLOOM_ITERATIONS: 8,
+        BLOOM_RESOLUTION: 256,
+        BLOOM_INTENSITY: 0.15,
+        BLOOM_THRESHOLD: 0.0,
+        BLOOM_SOFT_KNEE: 0.7,
+        SUNRAYS_RESOLUTION: 196,
+        SUNRAYS_WEIGHT: 0.1
+    },
+    'artistic-effects': {
+        SIM_RESOLUTION: 512,
+        DYE_RESOLUTION: 1024,
+        DENSITY_DISSIPATION: 1.5,
+        VELOCITY_DISSIPATION: 0.95,
+        PRESSURE_ITERATIONS: 25,
+        CURL: 0.2,
+        SPLAT_RADIUS: 0.0002,
+        SPLAT_FORCE: 6000,
+        BLOOM_ITERATIONS: 12,
+        BLOOM_RESOLUTION: 512,
+        BLOOM_INTENSITY: 0.25,
+        BLOOM_THRESHOLD: 0.1,
+        BLOOM_SOFT_KNEE: 0.9,
+        SUNRAYS_RESOLUTION: 256,
+        SUNRAYS_WEIGHT: 0.2
+    }
+};
+
+// Deep copy so callers cannot change the registered preset or the defaults
+const cloneConfig = (config: Config): Config => JSON.parse(JSON.stringify(config));
+
+/**
+ * Register a preset under a name usable with getPreset and the `preset` prop
+ * @param name - Name to reference the preset by
+ * @param config - Values that differ from the defaults; invalid values are clamped
+ */
+export const registerPreset = (name: string, config: Partial<Config>): void => {
+    if (presets[name]) {
+        console.warn(`Preset "${name}" is already registered, replacing it`);
+    }
+    presets[name] = validateConfig(config).config;
+};
+
+/**
+ * Get the full config of a preset
+ * @param name - Registered preset name
+ * @returns Defaults merged with the preset, or undefined when it is not registered
+ */
+export const getPreset = (name: string): Config | undefined => {
+    if (!presets[name]) {
+        console.warn(`Preset "${name}" not found`);
+        return undefined;
+    }
+    return cloneConfig({ ...DEFAULT_CONFIG, ...presets[name] });
+};
+
+/**
+ * List the registered preset names
+ */
+export const listPresets = (): string[] => {
+    return Object.keys(presets);
+};
+
+/**
+ * Serialize a config to versioned JSON. Keys left out are filled with the
+ * defaults so the export does not change when the defaults do, and color
+ * schemes registered at runtime are stored as their gradients.
+ * @param config - Config to save, e.g. from FluidRenderer.getConfig
+ * @param name - Optional preset name stored with the config
+ */
+export const exportConfig = (config: Partial<Config>, name?: string): string => {
+    const serialized: SerializedConfig = {
+        version: CONFIG_FORMAT_VERSION,
+        name,
+        config: inlineColorSchemes({ ...DEFAULT_CONFIG, ...config }) as Config
+    };
+    return JSON.stringify(serialized, null, 2);
+};
+
+/**
+ * Parse JSON written by exportConfig and validate the config it contains
+ * @param json - Exported JSON
+ * @param options - Validation options, `strict` throws on invalid values
+ * @returns The config merged over the defaults and the stored name
+ */
+export const importConfig = (
+    json: string,
+    options?: ConfigValidationOptions
+): { name?: string; config: Config } => {
+    // Older versions may have a different shape until they are migrated
+    const serialized = JSON.parse(json) as { version?: unknown; name?: unknown; config?: unknown } | null;
+    if (
+        typeof serialized?.version !== 'number' ||
+        !Number.isInteger(serialized.version) ||
+        typeof serialized.config !== 'object' ||
+        !serialized.config ||
+        Array.isArray(serialized.config)
+    ) {
+        throw new Error('Invalid config JSON: expected an object with "version" and "config"');
+    }
+
+    const migrated = migrateConfig(serialized.version, serialized.config as Record<string, unknown>);
+    const { config } = validateConfig(migrated as Partial<Config>, options);
+    return {
+        name: typeof serialized.name === 'string' ? serialized.name : undefined,
+        config: cloneConfig({ ...DEFAULT_CONFIG, ...config })
+    };
+};
@@ -0,0 +1,78 @@
+// Reduced motion utilities using functional programming
+import { gradientShader as gradientShaderSource } from './shaders';
+import { FBO, GradientProgram, RGBColor } from './types';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Seconds the calm gradient takes to fade from one color pair to the next
+ */
+const GRADIENT_FADE_PERIOD = 8;
+
+/**
+ * Follow the user's prefers-reduced-motion setting
+ * @param onChange - Called with the current preference, then on every change
+ * @returns Function removing the listener
+ */
+export const observeReducedMotion = (onChange: (reduce: boolean) => void): (() => void) => {
+    if (typeof window === 'undefined' || !window.matchMedia) {
+        onChange(false);
+        return () => {};
+    }
+
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => onChange(query.matches);
+    query.addEventListener('change', handleChange);
+    handleChange();
+
+    return () => query.removeEventListener('change', handleChange);
+};
+
+/**
+ * Initialize the calm gradient shader
+ */
+export const initReducedMotionShaders = (
+    gl: WebGLRenderingContext,
+    baseVertexShader: WebGLShader,
+    compileShader: (type: number, source: string) => WebGLShader
+): { gradientShader: WebGLShader } => {
+    const compiledGradientShader = compileShader(gl.FRAGMENT_SHADER, gradientShaderSource);
+    return { gradientShader: compiledGradientShader };
+};
+
+/**
+ * Draw a two-color gradient that slowly cross-fades through the scheme colors
+ * @param colors - Colors of the current scheme
+ * @param time - Seconds driving the fade
+ */
+export const drawReducedMotionGradient = (
+    gl: WebGLRenderingContext,
+    target: FBO | null,
+    colors: RGBColor[],
+    time: number,
+    gradientProgram: GradientProgram,
+    blit: (target: FBO | null) => void
+): void => {
+    if (colors.length === 0) return;
+
+    const phase = time / GRADIENT_FADE_PERIOD;
+    const index = Math.floor(phase);
+    const fraction = phase - index;
+    // Ease so each pair rests before fading to the next
+    const t = fraction * fraction * (3 - 2 * fraction);
+    const at = (i: number) => colors[i % colors.length];
+    const mix = (a: RGBColor, b: RGBColor): RGBColor => ({
+        r: a.r + (b.r - a.r) * t,
+        g: a.g + (b.g - a.g) * t,
+        b: a.b + (b.b - a.b) * t
+    });
+
+    const top = mix(at(index), at(index + 1));
+    const bottom = mix(at(index + 1), at(index + 2));
+
+    gl.disable(gl.BLEND);
+    gradientProgram.bind();
+    gl.uniform3f(gradientProgram.uniforms.topColor, top.r, top.g, top.b);
+    gl.uniform3f(gradientProgram.uniforms.bottomColor, bottom.r, bottom.g, bottom.b);
+    blit(target);
+};
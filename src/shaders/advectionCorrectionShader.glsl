@@ -0,0 +1,65 @@
+precision highp float;
+precision highp sampler2D;
+
+varying vec2 vUv;
+uniform sampler2D uVelocity;
+uniform sampler2D uSource;
+uniform sampler2D uBackward;
+uniform sampler2D uObstacles;
+uniform vec2 texelSize;
+uniform vec2 sourceTexelSize;
+uniform float dt;
+uniform float dissipation;
+
+vec4 bilerp (sampler2D sam, vec2 uv, vec2 tsize) {
+    vec2 st = uv / tsize - 0.5;
+
+    vec2 iuv = floor(st);
+    vec2 fuv = fract(st);
+
+    vec4 a = texture2D(sam, boundaryUv((iuv + vec2(0.5, 0.5)) * tsize));
+    vec4 b = texture2D(sam, boundaryUv((iuv + vec2(1.5, 0.5)) * tsize));
+    vec4 c = texture2D(sam, boundaryUv((iuv + vec2(0.5, 1.5)) * tsize));
+    vec4 d = texture2D(sam, boundaryUv((iuv + vec2(1.5, 1.5)) * tsize));
+
+    return mix(mix(a, b, fuv.x), mix(c, d, fuv.x), fuv.y);
+}
+
+vec4 sampleField (sampler2D sam, vec2 uv) {
+#ifdef MANUAL_FILTERING
+    return bilerp(sam, uv, sourceTexelSize);
+#else
+    return texture2D(sam, boundaryUv(uv));
+#endif
+}
+
+void main () {
+#ifdef MANUAL_FILTERING
+    vec2 coord = vUv - dt * bilerp(uVelocity, vUv, texelSize).xy * texelSize;
+#else
+    vec2 coord = vUv - dt * texture2D(uVelocity, vUv).xy * texelSize;
+#endif
+
+    // Limiter: keep the result within the texels the plain advection would blend
+    vec2 iuv = floor(coord / sourceTexelSize - 0.5);
+    vec4 a = texture2D(uSource, boundaryUv((iuv + vec2(0.5, 0.5)) * sourceTexelSize));
+    vec4 b = texture2D(uSource, boundaryUv((iuv + vec2(1.5, 0.5)) * sourceTexelSize));
+    vec4 c = texture2D(uSource, boundaryUv((iuv + vec2(0.5, 1.5)) * sourceTexelSize));
+    vec4 d = texture2D(uSource, boundaryUv((iuv + vec2(1.5, 1.5)) * sourceTexelSize));
+    vec4 minValue = min(min(a, b), min(c, d));
+    vec4 maxValue = max(max(a, b), max(c, d));
+
+    vec4 advected = sampleField(uSource, coord);
+#ifdef BFECC
+    // Advect the source with half of its round-trip error removed
+    vec4 corrected = advected + 0.5 * (advected - sampleField(uBackward, coord));
+#else
+    // MacCormack: correct the forward result by half of the round-trip error
+    vec4 corrected = advected + 0.5 * (texture2D(uSource, vUv) - texture2D(uBackward, vUv));
+#endif
+    vec4 result = clamp(corrected, minValue, maxValue);
+
+    float decay = 1.0 + dissipation * dt;
+    float solid = step(0.5, texture2D(uObstacles, vUv).a);
+    gl_FragColor = (result / decay) * (1.0 - solid);
+}
\ No newline at end of file
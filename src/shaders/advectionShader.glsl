@@ -4,6 +4,7 @@ precision highp sampler2D;
 varying vec2 vUv;
 uniform sampler2D uVelocity;
 uniform sampler2D uSource;
+uniform sampler2D uObstacles;
 uniform vec2 texelSize;
 uniform vec2 dyeTexelSize;
 uniform float dt;
@@ -15,10 +16,10 @@ vec4 bilerp (sampler2D sam, vec2 uv, vec2 tsize) {
     vec2 iuv = floor(st);
     vec2 fuv = fract(st);
 
-    vec4 a = texture2D(sam, (iuv + vec2(0.5, 0.5)) * tsize);
-    vec4 b = texture2D(sam, (iuv + vec2(1.5, 0.5)) * tsize);
-    vec4 c = texture2D(sam, (iuv + vec2(0.5, 1.5)) * tsize);
-    vec4 d = texture2D(sam, (iuv + vec2(1.5, 1.5)) * tsize);
+    vec4 a = texture2D(sam, boundaryUv((iuv + vec2(0.5, 0.5)) * tsize));
+    vec4 b = texture2D(sam, boundaryUv((iuv + vec2(1.5, 0.5)) * tsize));
+    vec4 c = texture2D(sam, boundaryUv((iuv + vec2(0.5, 1.5)) * tsize));
+    vec4 d = texture2D(sam, boundaryUv((iuv + vec2(1.5, 1.5)) * tsize));
 
     return mix(mix(a, b, fuv.x), mix(c, d, fuv.x), fuv.y);
 }
@@ -29,8 +30,9 @@ void main () {
     vec4 result = bilerp(uSource, coord, dyeTexelSize);
 #else
     vec2 coord = vUv - dt * texture2D(uVelocity, vUv).xy * texelSize;
-    vec4 result = texture2D(uSource, coord);
+    vec4 result = texture2D(uSource, boundaryUv(coord));
 #endif
     float decay = 1.0 + dissipation * dt;
-    gl_FragColor = result / decay;
+    float solid = step(0.5, texture2D(uObstacles, vUv).a);
+    gl_FragColor = (result / decay) * (1.0 - solid);
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+// Shared by the shaders that read neighbors across the domain edges;
+// prepended to them by withBoundaryChunk
+#define BOUNDARY_WALLS 0
+#define BOUNDARY_PERIODIC 1
+#define BOUNDARY_OPEN 2
+
+uniform int boundaryMode;
+
+// Qualified explicitly because this precedes the default precision statements
+highp vec2 boundaryUv (highp vec2 uv) {
+    return boundaryMode == BOUNDARY_PERIODIC ? fract(uv) : uv;
+}
\ No newline at end of file
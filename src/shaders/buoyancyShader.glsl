@@ -0,0 +1,17 @@
+precision highp float;
+precision highp sampler2D;
+
+varying vec2 vUv;
+uniform sampler2D uVelocity;
+uniform sampler2D uTemperature;
+uniform vec2 gravity;
+uniform float buoyancy;
+uniform float ambient;
+uniform float dt;
+
+void main () {
+    vec2 velocity = texture2D(uVelocity, vUv).xy;
+    float temperature = texture2D(uTemperature, vUv).x;
+    velocity -= gravity * buoyancy * (temperature - ambient) * dt;
+    gl_FragColor = vec4(velocity, 0.0, 1.0);
+}
\ No newline at end of file
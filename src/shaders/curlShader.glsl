@@ -9,10 +9,10 @@ varying highp vec2 vB;
 uniform sampler2D uVelocity;
 
 void main () {
-    float L = texture2D(uVelocity, vL).y;
-    float R = texture2D(uVelocity, vR).y;
-    float T = texture2D(uVelocity, vT).x;
-    float B = texture2D(uVelocity, vB).x;
+    float L = texture2D(uVelocity, boundaryUv(vL)).y;
+    float R = texture2D(uVelocity, boundaryUv(vR)).y;
+    float T = texture2D(uVelocity, boundaryUv(vT)).x;
+    float B = texture2D(uVelocity, boundaryUv(vB)).x;
     float vorticity = R - L - T + B;
     gl_FragColor = vec4(0.5 * vorticity, 0.0, 0.0, 1.0);
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+precision highp float;
+precision highp sampler2D;
+
+varying highp vec2 vUv;
+varying highp vec2 vL;
+varying highp vec2 vR;
+varying highp vec2 vT;
+varying highp vec2 vB;
+uniform sampler2D uTexture;
+uniform sampler2D uSource;
+uniform sampler2D uObstacles;
+uniform float alpha;
+
+void main () {
+    vec4 L = texture2D(uTexture, boundaryUv(vL));
+    vec4 R = texture2D(uTexture, boundaryUv(vR));
+    vec4 T = texture2D(uTexture, boundaryUv(vT));
+    vec4 B = texture2D(uTexture, boundaryUv(vB));
+    vec4 C = texture2D(uTexture, vUv);
+
+    // Nothing diffuses through obstacle faces
+    if (texture2D(uObstacles, vL).a > 0.5) { L = C; }
+    if (texture2D(uObstacles, vR).a > 0.5) { R = C; }
+    if (texture2D(uObstacles, vT).a > 0.5) { T = C; }
+    if (texture2D(uObstacles, vB).a > 0.5) { B = C; }
+
+    // Jacobi iteration of (1 - alpha * laplacian) x = source
+    vec4 source = texture2D(uSource, vUv);
+    gl_FragColor = (source + alpha * (L + R + T + B)) / (1.0 + 4.0 * alpha);
+}
\ No newline at end of file
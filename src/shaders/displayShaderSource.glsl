@@ -10,6 +10,13 @@ uniform sampler2D uTexture;
 uniform sampler2D uBloom;
 uniform sampler2D uSunrays;
 uniform sampler2D uDithering;
+uniform sampler2D uObstacles;
+uniform sampler2D uTemperature;
+uniform sampler2D uTemperatureGradient;
+uniform sampler2D uColorGradient;
+uniform float temperatureIntensity;
+uniform vec3 obstacleColor;
+uniform float showObstacles;
 uniform vec2 ditherScale;
 uniform vec2 texelSize;
 
@@ -18,9 +25,23 @@ vec3 linearToGamma (vec3 color) {
     return max(1.055 * pow(color, vec3(0.416666667)) - 0.055, vec3(0));
 }
 
+// Lookup tables are stored sRGB encoded
+vec3 gammaToLinear (vec3 color) {
+    return mix(color / 12.92, pow((color + 0.055) / 1.055, vec3(2.4)), step(0.04045, color));
+}
+
 void main () {
     vec3 c = texture2D(uTexture, vUv).rgb;
 
+#ifdef COLOR_LUT
+    // Dye brightness picks the color from the scheme gradient
+    float intensity = clamp(max(c.r, max(c.g, c.b)), 0.0, 1.0);
+    c = gammaToLinear(texture2D(uColorGradient, vec2(intensity, 0.5)).rgb) * intensity;
+#endif
+
+    float t = clamp(texture2D(uTemperature, vUv).x, 0.0, 1.0);
+    c += gammaToLinear(texture2D(uTemperatureGradient, vec2(t, 0.5)).rgb) * t * temperatureIntensity;
+
     vec3 lc = texture2D(uTexture, vL).rgb;
     vec3 rc = texture2D(uTexture, vR).rgb;
     vec3 tc = texture2D(uTexture, vT).rgb;
@@ -45,8 +66,15 @@ void main () {
     noise = noise * 2.0 - 1.0;
     bloom += noise / 255.0;
     bloom = linearToGamma(bloom);
+    // Dye colors are stored as linear light; BACK_COLOR and OBSTACLE_COLOR
+    // are display colors and blend with the encoded result
+    c = linearToGamma(c);
     c += bloom;
 
     float a = max(c.r, max(c.g, c.b));
+
+    float obstacle = texture2D(uObstacles, vUv).a * showObstacles;
+    c = mix(c, obstacleColor, obstacle);
+    a = mix(a, 1.0, obstacle);
     gl_FragColor = vec4(c, a);
 }
\ No newline at end of file
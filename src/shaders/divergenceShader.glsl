@@ -7,18 +7,38 @@ varying highp vec2 vR;
 varying highp vec2 vT;
 varying highp vec2 vB;
 uniform sampler2D uVelocity;
+uniform sampler2D uObstacles;
 
 void main () {
-    float L = texture2D(uVelocity, vL).x;
-    float R = texture2D(uVelocity, vR).x;
-    float T = texture2D(uVelocity, vT).y;
-    float B = texture2D(uVelocity, vB).y;
+    float L = texture2D(uVelocity, boundaryUv(vL)).x;
+    float R = texture2D(uVelocity, boundaryUv(vR)).x;
+    float T = texture2D(uVelocity, boundaryUv(vT)).y;
+    float B = texture2D(uVelocity, boundaryUv(vB)).y;
 
     vec2 C = texture2D(uVelocity, vUv).xy;
-    if (vL.x < 0.0) { L = -C.x; }
-    if (vR.x > 1.0) { R = -C.x; }
-    if (vT.y > 1.0) { T = -C.y; }
-    if (vB.y < 0.0) { B = -C.y; }
+    if (boundaryMode == BOUNDARY_WALLS) {
+        // Walls reflect the normal velocity
+        if (vL.x < 0.0) { L = -C.x; }
+        if (vR.x > 1.0) { R = -C.x; }
+        if (vT.y > 1.0) { T = -C.y; }
+        if (vB.y < 0.0) { B = -C.y; }
+    } else if (boundaryMode == BOUNDARY_OPEN) {
+        // Open borders let the flow leave unchanged
+        if (vL.x < 0.0) { L = C.x; }
+        if (vR.x > 1.0) { R = C.x; }
+        if (vT.y > 1.0) { T = C.y; }
+        if (vB.y < 0.0) { B = C.y; }
+    }
+
+    // Obstacle faces reflect the normal velocity like the domain edges
+    if (texture2D(uObstacles, vL).a > 0.5) { L = -C.x; }
+    if (texture2D(uObstacles, vR).a > 0.5) { R = -C.x; }
+    if (texture2D(uObstacles, vT).a > 0.5) { T = -C.y; }
+    if (texture2D(uObstacles, vB).a > 0.5) { B = -C.y; }
+    if (texture2D(uObstacles, vUv).a > 0.5) {
+        gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+    }
 
     float div = 0.5 * (R - L + T - B);
     gl_FragColor = vec4(div, 0.0, 0.0, 1.0);
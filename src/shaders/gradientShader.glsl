@@ -0,0 +1,16 @@
+precision mediump float;
+
+varying vec2 vUv;
+uniform vec3 topColor;
+uniform vec3 bottomColor;
+
+vec3 linearToGamma (vec3 color) {
+    color = max(color, vec3(0));
+    return max(1.055 * pow(color, vec3(0.416666667)) - 0.055, vec3(0));
+}
+
+void main () {
+    // Diagonal blend, eased so the colors meet softly in the middle
+    float t = smoothstep(0.0, 1.0, (vUv.y * 0.75 + vUv.x * 0.25));
+    gl_FragColor = vec4(linearToGamma(mix(bottomColor, topColor, t)), 1.0);
+}
\ No newline at end of file
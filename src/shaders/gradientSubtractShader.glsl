@@ -8,13 +8,39 @@ varying highp vec2 vT;
 varying highp vec2 vB;
 uniform sampler2D uPressure;
 uniform sampler2D uVelocity;
+uniform sampler2D uObstacles;
+uniform float noSlip;
 
 void main () {
-    float L = texture2D(uPressure, vL).x;
-    float R = texture2D(uPressure, vR).x;
-    float T = texture2D(uPressure, vT).x;
-    float B = texture2D(uPressure, vB).x;
+    float L = texture2D(uPressure, boundaryUv(vL)).x;
+    float R = texture2D(uPressure, boundaryUv(vR)).x;
+    float T = texture2D(uPressure, boundaryUv(vT)).x;
+    float B = texture2D(uPressure, boundaryUv(vB)).x;
+    float C = texture2D(uPressure, vUv).x;
+
+    if (boundaryMode == BOUNDARY_OPEN) {
+        if (vL.x < 0.0) { L = 0.0; }
+        if (vR.x > 1.0) { R = 0.0; }
+        if (vT.y > 1.0) { T = 0.0; }
+        if (vB.y < 0.0) { B = 0.0; }
+    }
+
+    float oL = step(0.5, texture2D(uObstacles, vL).a);
+    float oR = step(0.5, texture2D(uObstacles, vR).a);
+    float oT = step(0.5, texture2D(uObstacles, vT).a);
+    float oB = step(0.5, texture2D(uObstacles, vB).a);
+    L = mix(L, C, oL);
+    R = mix(R, C, oR);
+    T = mix(T, C, oT);
+    B = mix(B, C, oB);
+
     vec2 velocity = texture2D(uVelocity, vUv).xy;
     velocity.xy -= vec2(R - L, T - B);
+
+    // Free-slip drops the component into the obstacle, no-slip drops both
+    vec2 solid = vec2(max(oL, oR), max(oT, oB));
+    vec2 keep = mix(1.0 - solid, vec2(1.0 - max(solid.x, solid.y)), noSlip);
+    velocity *= keep;
+    velocity *= 1.0 - step(0.5, texture2D(uObstacles, vUv).a);
     gl_FragColor = vec4(velocity, 0.0, 1.0);
 }
\ No newline at end of file
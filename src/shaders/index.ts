@@ -1,39 +1,55 @@
+import advectionCorrectionShader from './advectionCorrectionShader.glsl';
 import advectionShader from './advectionShader.glsl';
 import baseVertexShader from './baseVertexShader.glsl';
 import bloomBlurShader from './bloomBlurShader.glsl';
 import bloomFinalShader from './bloomFinalShader.glsl';
 import bloomPrefilterShader from './bloomPrefilterShader.glsl';
+import boundaryChunk from './boundaryChunk.glsl';
+import buoyancyShader from './buoyancyShader.glsl';
 import blurShader from './blurShader.glsl';
 import blurVertexShader from './blurVertexShader.glsl';
 import clearShader from './clearShader.glsl';
 import colorShader from './colorShader.glsl';
 import copyShader from './copyShader.glsl';
 import curlShader from './curlShader.glsl';
+import diffusionShader from './diffusionShader.glsl';
 import displayShaderSource from './displayShaderSource.glsl';
 import divergenceShader from './divergenceShader.glsl';
+import gradientShader from './gradientShader.glsl';
 import gradientSubtractShader from './gradientSubtractShader.glsl';
 import pressureShader from './pressureShader.glsl';
+import prolongShader from './prolongShader.glsl';
+import residualShader from './residualShader.glsl';
+import restrictShader from './restrictShader.glsl';
 import splatShader from './splatShader.glsl';
 import sunraysMaskShader from './sunraysMaskShader.glsl';
 import sunraysShader from './sunraysShader.glsl';
 import vorticityShader from './vorticityShader.glsl';
 
 export {
+  advectionCorrectionShader,
   advectionShader,
   baseVertexShader,
   bloomBlurShader,
   bloomFinalShader,
   bloomPrefilterShader,
+  boundaryChunk,
+  buoyancyShader,
   blurShader,
   blurVertexShader,
   clearShader,
   colorShader,
   copyShader,
   curlShader,
+  diffusionShader,
   displayShaderSource,
   divergenceShader,
+  gradientShader,
   gradientSubtractShader,
   pressureShader,
+  prolongShader,
+  residualShader,
+  restrictShader,
   splatShader,
   sunraysMaskShader,
   sunraysShader,
@@ -8,14 +8,32 @@ varying highp vec2 vT;
 varying highp vec2 vB;
 uniform sampler2D uPressure;
 uniform sampler2D uDivergence;
+uniform sampler2D uObstacles;
+uniform float weight;
 
 void main () {
-    float L = texture2D(uPressure, vL).x;
-    float R = texture2D(uPressure, vR).x;
-    float T = texture2D(uPressure, vT).x;
-    float B = texture2D(uPressure, vB).x;
+    float L = texture2D(uPressure, boundaryUv(vL)).x;
+    float R = texture2D(uPressure, boundaryUv(vR)).x;
+    float T = texture2D(uPressure, boundaryUv(vT)).x;
+    float B = texture2D(uPressure, boundaryUv(vB)).x;
     float C = texture2D(uPressure, vUv).x;
+
+    // Open borders hold zero pressure outside; walls rely on edge clamping
+    if (boundaryMode == BOUNDARY_OPEN) {
+        if (vL.x < 0.0) { L = 0.0; }
+        if (vR.x > 1.0) { R = 0.0; }
+        if (vT.y > 1.0) { T = 0.0; }
+        if (vB.y < 0.0) { B = 0.0; }
+    }
+
+    // Zero pressure gradient across obstacle faces
+    if (texture2D(uObstacles, vL).a > 0.5) { L = C; }
+    if (texture2D(uObstacles, vR).a > 0.5) { R = C; }
+    if (texture2D(uObstacles, vT).a > 0.5) { T = C; }
+    if (texture2D(uObstacles, vB).a > 0.5) { B = C; }
     float divergence = texture2D(uDivergence, vUv).x;
     float pressure = (L + R + B + T - divergence) * 0.25;
-    gl_FragColor = vec4(pressure, 0.0, 0.0, 1.0);
+
+    // Weights below 1 damp the update so multigrid can use this as its smoother
+    gl_FragColor = vec4(mix(C, pressure, weight), 0.0, 0.0, 1.0);
 }
\ No newline at end of file
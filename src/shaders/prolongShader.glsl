@@ -0,0 +1,12 @@
+precision highp float;
+precision highp sampler2D;
+
+varying vec2 vUv;
+uniform sampler2D uPressure;
+uniform sampler2D uCorrection;
+
+void main () {
+    float pressure = texture2D(uPressure, vUv).x;
+    float correction = texture2D(uCorrection, vUv).x;
+    gl_FragColor = vec4(pressure + correction, 0.0, 0.0, 1.0);
+}
\ No newline at end of file
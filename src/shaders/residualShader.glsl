@@ -0,0 +1,36 @@
+precision highp float;
+precision highp sampler2D;
+
+varying highp vec2 vUv;
+varying highp vec2 vL;
+varying highp vec2 vR;
+varying highp vec2 vT;
+varying highp vec2 vB;
+uniform sampler2D uPressure;
+uniform sampler2D uDivergence;
+uniform sampler2D uObstacles;
+
+void main () {
+    float L = texture2D(uPressure, boundaryUv(vL)).x;
+    float R = texture2D(uPressure, boundaryUv(vR)).x;
+    float T = texture2D(uPressure, boundaryUv(vT)).x;
+    float B = texture2D(uPressure, boundaryUv(vB)).x;
+    float C = texture2D(uPressure, vUv).x;
+
+    if (boundaryMode == BOUNDARY_OPEN) {
+        if (vL.x < 0.0) { L = 0.0; }
+        if (vR.x > 1.0) { R = 0.0; }
+        if (vT.y > 1.0) { T = 0.0; }
+        if (vB.y < 0.0) { B = 0.0; }
+    }
+
+    if (texture2D(uObstacles, vL).a > 0.5) { L = C; }
+    if (texture2D(uObstacles, vR).a > 0.5) { R = C; }
+    if (texture2D(uObstacles, vT).a > 0.5) { T = C; }
+    if (texture2D(uObstacles, vB).a > 0.5) { B = C; }
+    float divergence = texture2D(uDivergence, vUv).x;
+
+    // Residual of the same Poisson equation the pressure pass relaxes
+    float residual = divergence - (L + R + B + T - 4.0 * C);
+    gl_FragColor = vec4(residual, 0.0, 0.0, 1.0);
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+precision highp float;
+precision highp sampler2D;
+
+varying vec2 vUv;
+uniform sampler2D uTexture;
+uniform vec2 texelSize;
+
+void main () {
+    // texelSize is the fine grid texel, so each tap lands on one of the 2x2 fine cells
+    float a = texture2D(uTexture, vUv + vec2(-0.5, -0.5) * texelSize).x;
+    float b = texture2D(uTexture, vUv + vec2(0.5, -0.5) * texelSize).x;
+    float c = texture2D(uTexture, vUv + vec2(-0.5, 0.5) * texelSize).x;
+    float d = texture2D(uTexture, vUv + vec2(0.5, 0.5) * texelSize).x;
+
+    // Coarse cells are twice as wide, so the right-hand side scales by 2^2
+    float average = 0.25 * (a + b + c + d);
+    gl_FragColor = vec4(4.0 * average, 0.0, 0.0, 1.0);
+}
\ No newline at end of file
@@ -12,10 +12,10 @@ uniform float curl;
 uniform float dt;
 
 void main () {
-    float L = texture2D(uCurl, vL).x;
-    float R = texture2D(uCurl, vR).x;
-    float T = texture2D(uCurl, vT).x;
-    float B = texture2D(uCurl, vB).x;
+    float L = texture2D(uCurl, boundaryUv(vL)).x;
+    float R = texture2D(uCurl, boundaryUv(vR)).x;
+    float T = texture2D(uCurl, boundaryUv(vT)).x;
+    float B = texture2D(uCurl, boundaryUv(vB)).x;
     float C = texture2D(uCurl, vUv).x;
 
     vec2 force = 0.5 * vec2(abs(T) - abs(B), abs(R) - abs(L));
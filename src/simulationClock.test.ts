@@ -0,0 +1,123 @@
+import { createSeededRandom, SimulationClock } from "./simulationClock";
+
+const STEP = 1 / 60;
+
+/**
+ * Clock driven by a manual time source in milliseconds
+ */
+const createClock = () => {
+  let now = 0;
+  const clock = new SimulationClock(() => now);
+  const advanceTo = (ms: number) => {
+    now = ms;
+  };
+  return { clock, advanceTo };
+};
+
+describe("SimulationClock", () => {
+  it("runs no step until a full step of time has passed", () => {
+    const { clock, advanceTo } = createClock();
+
+    advanceTo(10);
+    expect(clock.tick(STEP, 5)).toBe(0);
+    advanceTo(17);
+    expect(clock.tick(STEP, 5)).toBe(1);
+    expect(clock.time).toBeCloseTo(STEP);
+  });
+
+  it("carries the remainder over to later ticks", () => {
+    const { clock, advanceTo } = createClock();
+
+    // 120 Hz frames, two per fixed step
+    const steps = Array.from({ length: 12 }, (_, i) => {
+      advanceTo(((i + 1) * 1000) / 120);
+      return clock.tick(STEP, 5);
+    });
+
+    expect(steps.reduce((sum, n) => sum + n, 0)).toBe(6);
+    expect(steps.filter((n) => n === 0)).toHaveLength(6);
+    expect(clock.time).toBeCloseTo(6 * STEP);
+  });
+
+  it("clamps the steps per tick and drops the backlog after a stall", () => {
+    const { clock, advanceTo } = createClock();
+
+    advanceTo(1000);
+    expect(clock.tick(STEP, 4)).toBe(4);
+    expect(clock.time).toBeCloseTo(4 * STEP);
+
+    // At most one step of the stall is left over
+    advanceTo(1000 + 1000 * STEP);
+    expect(clock.tick(STEP, 4)).toBeLessThanOrEqual(2);
+  });
+
+  it("ignores time running backwards", () => {
+    const { clock, advanceTo } = createClock();
+
+    advanceTo(100);
+    clock.tick(STEP, 10);
+    const time = clock.time;
+    advanceTo(50);
+    expect(clock.tick(STEP, 10)).toBe(0);
+    expect(clock.time).toBe(time);
+  });
+
+  it("adds one step per tick when frame-locked", () => {
+    const clock = new SimulationClock(null);
+
+    expect(clock.tick(STEP, 5)).toBe(1);
+    expect(clock.tick(STEP, 5)).toBe(1);
+    expect(clock.time).toBeCloseTo(2 * STEP);
+  });
+
+  it("scales and freezes time with timeScale", () => {
+    const { clock, advanceTo } = createClock();
+
+    clock.timeScale = 0.5;
+    advanceTo(1000);
+    expect(clock.tick(STEP, 100)).toBe(30);
+
+    clock.timeScale = 0;
+    advanceTo(2000);
+    expect(clock.tick(STEP, 100)).toBe(0);
+
+    clock.timeScale = -1;
+    expect(clock.timeScale).toBe(0);
+  });
+
+  it("discards the time passed on sync but keeps the simulated time", () => {
+    const { clock, advanceTo } = createClock();
+
+    advanceTo(500);
+    clock.tick(STEP, 100);
+    const time = clock.time;
+
+    advanceTo(10000);
+    clock.sync();
+    expect(clock.tick(STEP, 100)).toBe(0);
+    expect(clock.time).toBe(time);
+
+    clock.advance(STEP);
+    expect(clock.time).toBeCloseTo(time + STEP);
+    clock.reset();
+    expect(clock.time).toBe(0);
+  });
+});
+
+describe("createSeededRandom", () => {
+  it("repeats the sequence for the same seed", () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const sequence = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it("yields different sequences for different seeds", () => {
+    expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+  });
+});
@@ -0,0 +1,108 @@
+import { TimeSource } from './types';
+
+/**
+ * Fixed-step clock shared by the solver and the emitters. Wall-clock time
+ * from the time source is accumulated and consumed in whole steps, so the
+ * simulation advances the same way regardless of frame rate.
+ */
+export class SimulationClock {
+    private timeSource: TimeSource | null;
+    private lastTime: number = 0;
+    private accumulator: number = 0;
+    private elapsed: number = 0;
+    private scale: number = 1;
+
+    /**
+     * @param timeSource - Returns the current time in milliseconds. When null
+     * the clock is frame-locked and every tick adds one step of time.
+     */
+    constructor(timeSource: TimeSource | null = () => performance.now()) {
+        this.timeSource = timeSource;
+        this.reset();
+    }
+
+    /**
+     * Consume the time passed since the last tick
+     * @param stepSize - Fixed step in seconds
+     * @param maxSteps - Upper bound on steps per tick; time beyond it is dropped
+     * @returns Number of fixed steps to run
+     */
+    public tick(stepSize: number, maxSteps: number): number {
+        if (this.timeSource) {
+            const now = this.timeSource();
+            this.accumulator += Math.max(0, (now - this.lastTime) / 1000) * this.scale;
+            this.lastTime = now;
+        } else {
+            this.accumulator += stepSize * this.scale;
+        }
+
+        // The epsilon keeps rounding errors from delaying a step that is due
+        const steps = Math.min(Math.floor(this.accumulator / stepSize + 1e-9), maxSteps);
+        this.accumulator = Math.max(0, this.accumulator - steps * stepSize);
+        // Drop the backlog after a stall instead of fast-forwarding through it
+        if (steps === maxSteps) {
+            this.accumulator = Math.min(this.accumulator, stepSize);
+        }
+        this.elapsed += steps * stepSize;
+        return steps;
+    }
+
+    /**
+     * Restart from the current time with an empty accumulator
+     */
+    public reset(): void {
+        this.sync();
+        this.elapsed = 0;
+    }
+
+    /**
+     * Discard the time passed since the last tick, e.g. after a pause, while
+     * keeping the simulated time
+     */
+    public sync(): void {
+        this.lastTime = this.timeSource ? this.timeSource() : 0;
+        this.accumulator = 0;
+    }
+
+    /**
+     * Add steps run outside of tick to the simulated time
+     * @param seconds - Simulated seconds
+     */
+    public advance(seconds: number): void {
+        this.elapsed += seconds;
+    }
+
+    /**
+     * Simulated seconds per wall-clock second; 0 freezes the simulation
+     */
+    public get timeScale(): number {
+        return this.scale;
+    }
+
+    public set timeScale(scale: number) {
+        this.scale = Math.max(0, scale);
+    }
+
+    /**
+     * Simulated time in seconds since the last reset
+     */
+    public get time(): number {
+        return this.elapsed;
+    }
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @param seed - Any integer; the same seed yields the same sequence
+ * @returns Function returning numbers in [0, 1) like Math.random
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
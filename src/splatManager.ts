@@ -2,10 +2,24 @@
 
 // Import shader source code
 import {
+    advectionCorrectionShader as advectionCorrectionShaderSource,
     advectionShader as advectionShaderSource,
     splatShader as splatShaderSource
 } from './shaders';
-import { BaseFBO, DoubleFBO, Pointer, RGBColor, SplatConfig, SplatProgram } from './types';
+import { boundaryModeIndex, withBoundaryChunk } from './physicsManager';
+import {
+    AdvectionCorrectionProgram,
+    AdvectionProgram,
+    AdvectionScheme,
+    BaseFBO,
+    BoundaryMode,
+    DoubleFBO,
+    ObstacleTexture,
+    Pointer,
+    RGBColor,
+    SplatConfig,
+    SplatProgram
+} from './types';
 
 /**
  * Initialize splat and advection shaders
@@ -18,16 +32,31 @@ export const initSplatShaders = (
 ): { 
     splatShader: WebGLShader;
     advectionShader: WebGLShader;
+    maccormackShader: WebGLShader;
+    bfeccShader: WebGLShader;
 } => {
+    const filteringKeywords = supportLinearFiltering ? [] : ['MANUAL_FILTERING'];
     const compiledSplatShader = compileShader(gl.FRAGMENT_SHADER, splatShaderSource);
     const compiledAdvectionShader = compileShader(
         gl.FRAGMENT_SHADER,
-        advectionShaderSource,
+        withBoundaryChunk(advectionShaderSource),
         supportLinearFiltering ? undefined : ['MANUAL_FILTERING']
     );
+    const compiledMaccormackShader = compileShader(
+        gl.FRAGMENT_SHADER,
+        withBoundaryChunk(advectionCorrectionShaderSource),
+        filteringKeywords
+    );
+    const compiledBfeccShader = compileShader(
+        gl.FRAGMENT_SHADER,
+        withBoundaryChunk(advectionCorrectionShaderSource),
+        [...filteringKeywords, 'BFECC']
+    );
     return { 
         splatShader: compiledSplatShader,
-        advectionShader: compiledAdvectionShader
+        advectionShader: compiledAdvectionShader,
+        maccormackShader: compiledMaccormackShader,
+        bfeccShader: compiledBfeccShader
     };
 };
 
@@ -79,6 +108,33 @@ export const applySplat = (
     dye.swap();
 };
 
+/**
+ * Inject heat into the temperature field
+ */
+export const applyHeatSplat = (
+    gl: WebGLRenderingContext,
+    config: SplatConfig,
+    x: number,
+    y: number,
+    heat: number,
+    temperature: DoubleFBO,
+    canvas: HTMLCanvasElement,
+    splatProgram: SplatProgram,
+    blit: (target: BaseFBO | null) => void
+): void => {
+    splatProgram.bind();
+    gl.uniform1i(splatProgram.uniforms.uTarget, temperature.read.attach(0));
+    gl.uniform1f(splatProgram.uniforms.aspectRatio, canvas.width / canvas.height);
+    gl.uniform2f(splatProgram.uniforms.point, x, y);
+    gl.uniform3f(splatProgram.uniforms.color, heat, 0.0, 0.0);
+    gl.uniform1f(
+        splatProgram.uniforms.radius,
+        correctRadius(config.SPLAT_RADIUS / 100.0, canvas.width / canvas.height)
+    );
+    blit(temperature.write);
+    temperature.swap();
+};
+
 /**
  * Apply advection effect
  */
@@ -86,13 +142,17 @@ export const applyAdvection = (
     gl: WebGLRenderingContext,
     velocity: DoubleFBO,
     source: DoubleFBO,
+    obstacles: ObstacleTexture,
     dt: number,
     dissipation: number,
+    boundaryMode: BoundaryMode,
     advectionProgram: {
         bind: () => void;
         uniforms: {
             uVelocity: WebGLUniformLocation;
             uSource: WebGLUniformLocation;
+            uObstacles: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
             texelSize: WebGLUniformLocation;
             dyeTexelSize: WebGLUniformLocation;
             dt: WebGLUniformLocation;
@@ -101,6 +161,38 @@ export const applyAdvection = (
     },
     blit: (target: BaseFBO | null) => void,
     supportLinearFiltering: boolean
+): void => {
+    advect(
+        gl,
+        velocity,
+        source.read,
+        source.write,
+        obstacles,
+        dt,
+        dissipation,
+        boundaryMode,
+        advectionProgram,
+        blit,
+        supportLinearFiltering
+    );
+    source.swap();
+};
+
+/**
+ * Single semi-Lagrangian pass from one texture into another
+ */
+const advect = (
+    gl: WebGLRenderingContext,
+    velocity: DoubleFBO,
+    source: BaseFBO,
+    target: BaseFBO,
+    obstacles: ObstacleTexture,
+    dt: number,
+    dissipation: number,
+    boundaryMode: BoundaryMode,
+    advectionProgram: AdvectionProgram,
+    blit: (target: BaseFBO | null) => void,
+    supportLinearFiltering: boolean
 ): void => {
     gl.disable(gl.BLEND);
     advectionProgram.bind();
@@ -112,16 +204,63 @@ export const applyAdvection = (
     
     // If velocity and source are the same, use the same texture ID
     const velocityId = velocity.read.attach(0);
-    if (velocity === source) {
+    if (velocity.read === source) {
         gl.uniform1i(advectionProgram.uniforms.uVelocity, velocityId);
         gl.uniform1i(advectionProgram.uniforms.uSource, velocityId);
     } else {
         gl.uniform1i(advectionProgram.uniforms.uVelocity, velocityId);
-        gl.uniform1i(advectionProgram.uniforms.uSource, source.read.attach(1));
+        gl.uniform1i(advectionProgram.uniforms.uSource, source.attach(1));
     }
+    gl.uniform1i(advectionProgram.uniforms.uObstacles, obstacles.attach(2));
+    gl.uniform1i(advectionProgram.uniforms.boundaryMode, boundaryModeIndex[boundaryMode]);
     
     gl.uniform1f(advectionProgram.uniforms.dt, dt);
     gl.uniform1f(advectionProgram.uniforms.dissipation, dissipation);
+    blit(target);
+};
+
+/**
+ * Apply MacCormack or BFECC advection. Runs a forward pass into source.write
+ * and a backward pass into scratch, then a limited correction pass.
+ * @param scratch - Framebuffer matching the size and format of source
+ */
+export const applyCorrectedAdvection = (
+    gl: WebGLRenderingContext,
+    scheme: Exclude<AdvectionScheme, 'semi-lagrangian'>,
+    velocity: DoubleFBO,
+    source: DoubleFBO,
+    scratch: BaseFBO,
+    obstacles: ObstacleTexture,
+    dt: number,
+    dissipation: number,
+    boundaryMode: BoundaryMode,
+    programs: {
+        advection: AdvectionProgram;
+        maccormack: AdvectionCorrectionProgram;
+        bfecc: AdvectionCorrectionProgram;
+    },
+    blit: (target: BaseFBO | null) => void,
+    supportLinearFiltering: boolean
+): void => {
+    const sourceRead = source.read;
+
+    // Forward and backward passes without dissipation
+    advect(gl, velocity, sourceRead, source.write, obstacles, dt, 0, boundaryMode,
+        programs.advection, blit, supportLinearFiltering);
+    advect(gl, velocity, source.write, scratch, obstacles, -dt, 0, boundaryMode,
+        programs.advection, blit, supportLinearFiltering);
+
+    const correctionProgram = programs[scheme];
+    correctionProgram.bind();
+    gl.uniform2f(correctionProgram.uniforms.texelSize, velocity.texelSizeX, velocity.texelSizeY);
+    gl.uniform2f(correctionProgram.uniforms.sourceTexelSize, sourceRead.texelSizeX, sourceRead.texelSizeY);
+    gl.uniform1i(correctionProgram.uniforms.uVelocity, velocity.read.attach(0));
+    gl.uniform1i(correctionProgram.uniforms.uSource, sourceRead.attach(1));
+    gl.uniform1i(correctionProgram.uniforms.uBackward, scratch.attach(2));
+    gl.uniform1i(correctionProgram.uniforms.uObstacles, obstacles.attach(3));
+    gl.uniform1i(correctionProgram.uniforms.boundaryMode, boundaryModeIndex[boundaryMode]);
+    gl.uniform1f(correctionProgram.uniforms.dt, dt);
+    gl.uniform1f(correctionProgram.uniforms.dissipation, dissipation);
     blit(source.write);
     source.swap();
 };
@@ -219,17 +358,18 @@ export const multipleSplats = (
     canvas: HTMLCanvasElement,
     splatProgram: SplatProgram,
     blit: (target: BaseFBO | null) => void,
-    getColorFromScheme: () => RGBColor
+    getColorFromScheme: () => RGBColor,
+    random: () => number = Math.random
 ): void => {
     for (let i = 0; i < amount; i++) {
         const color = getColorFromScheme();
         color.r *= 10.0;
         color.g *= 10.0;
         color.b *= 10.0;
-        const x = Math.random();
-        const y = Math.random();
-        const dx = 1000 * (Math.random() - 0.5);
-        const dy = 1000 * (Math.random() - 0.5);
+        const x = random();
+        const y = random();
+        const dx = 1000 * (random() - 0.5);
+        const dy = 1000 * (random() - 0.5);
         applySplat(
             gl,
             config,
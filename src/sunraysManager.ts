@@ -9,15 +9,6 @@ import {
 } from './shaders';
 import { BaseFBO, SunraysConfig, SunraysPrograms } from './types';
 
-// Internal state - only tracking framebuffers
-let sunraysFramebuffers: {
-    sunrays: BaseFBO | null;
-    temp: BaseFBO | null;
-} = {
-    sunrays: null,
-    temp: null
-};
-
 /**
  * Initialize sunrays shaders
  * @param gl - WebGL context
@@ -65,7 +56,7 @@ export const initSunraysFramebuffers = (
     const res = getResolution(config.resolution);
     const filtering = ext.supportLinearFiltering ? gl.LINEAR : gl.NEAREST;
 
-    sunraysFramebuffers.sunrays = createFBO(
+    const sunrays = createFBO(
         res.width,
         res.height,
         ext.formatR.internalFormat,
@@ -74,7 +65,7 @@ export const initSunraysFramebuffers = (
         filtering
     );
 
-    sunraysFramebuffers.temp = createFBO(
+    const temp = createFBO(
         res.width,
         res.height,
         ext.formatR.internalFormat,
@@ -83,7 +74,7 @@ export const initSunraysFramebuffers = (
         filtering
     );
 
-    return { ...sunraysFramebuffers } as { sunrays: BaseFBO; temp: BaseFBO };
+    return { sunrays, temp };
 };
 
 /**
@@ -119,13 +110,6 @@ export const applySunrays = (
     blit(destination);
 };
 
-/**
- * Get current sunrays framebuffers
- */
-export const getSunraysFramebuffers = (): { sunrays: BaseFBO | null; temp: BaseFBO | null } => {
-    return { ...sunraysFramebuffers };
-};
-
 /**
  * Apply blur effect to sunrays
  * @param gl - WebGL context
@@ -0,0 +1,133 @@
+import { DEFAULT_CONFIG } from "./configSchema";
+import {
+  interpolateConfig,
+  mixColors,
+  mixPalettes,
+  resolveEasing,
+} from "./transitionManager";
+import type { Config } from "./types";
+
+const config = (overrides: Partial<Config>): Config => ({
+  ...DEFAULT_CONFIG,
+  ...overrides,
+});
+
+describe("interpolateConfig", () => {
+  it("blends numbers, including nested ones", () => {
+    const from = config({ CURL: 0, BACK_COLOR: { r: 0, g: 0, b: 0 } });
+    const to = config({ CURL: 10, BACK_COLOR: { r: 1, g: 0.5, b: 0 } });
+    const mid = interpolateConfig(from, to, 0.5);
+
+    expect(mid.CURL).toBe(5);
+    expect(mid.BACK_COLOR).toEqual({ r: 0.5, g: 0.25, b: 0 });
+  });
+
+  it("returns the endpoints at 0 and 1", () => {
+    const from = config({ CURL: 1, GRAVITY: { x: 0, y: -1 } });
+    const to = config({ CURL: 3, GRAVITY: { x: 1, y: 0 } });
+
+    expect(interpolateConfig(from, to, 0)).toEqual(from);
+    expect(interpolateConfig(from, to, 1).CURL).toBe(3);
+    expect(interpolateConfig(from, to, 1).GRAVITY).toEqual({ x: 1, y: 0 });
+  });
+
+  it("holds discrete keys at their start value", () => {
+    const from = config({
+      SIM_RESOLUTION: 128,
+      BLOOM_ITERATIONS: 4,
+      SEED: 1,
+      DUFFING: { ...DEFAULT_CONFIG.DUFFING, NUM_OSCILLATORS: 2, GAMMA: 0 },
+    });
+    const to = config({
+      SIM_RESOLUTION: 512,
+      BLOOM_ITERATIONS: 12,
+      SEED: 99,
+      DUFFING: { ...DEFAULT_CONFIG.DUFFING, NUM_OSCILLATORS: 16, GAMMA: 1 },
+    });
+    const mid = interpolateConfig(from, to, 0.5);
+
+    expect(mid.SIM_RESOLUTION).toBe(128);
+    expect(mid.BLOOM_ITERATIONS).toBe(4);
+    expect(mid.SEED).toBe(1);
+    expect(mid.DUFFING.NUM_OSCILLATORS).toBe(2);
+    expect(mid.DUFFING.GAMMA).toBe(0.5);
+  });
+
+  it("holds strings, booleans and arrays at their start value", () => {
+    const from = config({
+      BOUNDARY_MODE: "walls",
+      SHOW_OBSTACLES: false,
+      COLOR_SCHEME: "fire",
+      MOTION_SOURCES: [{ type: "duffing", count: 1 }],
+    });
+    const to = config({
+      BOUNDARY_MODE: "periodic",
+      SHOW_OBSTACLES: true,
+      COLOR_SCHEME: "sunset",
+      MOTION_SOURCES: [{ type: "lorenz", count: 2 }],
+    });
+    const mid = interpolateConfig(from, to, 0.9);
+
+    expect(mid.BOUNDARY_MODE).toBe("walls");
+    expect(mid.SHOW_OBSTACLES).toBe(false);
+    expect(mid.COLOR_SCHEME).toBe("fire");
+    expect(mid.MOTION_SOURCES).toEqual([{ type: "duffing", count: 1 }]);
+  });
+
+  it("takes keys missing from the start config from the target", () => {
+    const to = config({ MOTION_SOURCES: [{ type: "lorenz", count: 2 }] });
+
+    expect(interpolateConfig(DEFAULT_CONFIG, to, 0.5).MOTION_SOURCES).toEqual(
+      to.MOTION_SOURCES
+    );
+  });
+});
+
+describe("resolveEasing", () => {
+  it("resolves the named easings to curves from 0 to 1", () => {
+    (["linear", "ease-in", "ease-out", "ease-in-out"] as const).forEach(
+      (name) => {
+        const easing = resolveEasing(name);
+        expect(easing(0)).toBeCloseTo(0);
+        expect(easing(1)).toBeCloseTo(1);
+      }
+    );
+    expect(resolveEasing("ease-in")(0.5)).toBeLessThan(0.5);
+    expect(resolveEasing("ease-out")(0.5)).toBeGreaterThan(0.5);
+    expect(resolveEasing()(0.5)).toBeCloseTo(0.5);
+  });
+
+  it("passes functions through and falls back for unknown names", () => {
+    const custom = (t: number) => t * t;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(resolveEasing(custom)).toBe(custom);
+    expect(resolveEasing("bounce" as "linear")).toBe(
+      resolveEasing("ease-in-out")
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe("mixPalettes", () => {
+  const red = { r: 1, g: 0, b: 0 };
+  const blue = { r: 0, g: 0, b: 1 };
+  const green = { r: 0, g: 1, b: 0 };
+
+  it("blends colors pairwise", () => {
+    expect(mixColors(red, blue, 0.25)).toEqual({ r: 0.75, g: 0, b: 0.25 });
+    expect(mixPalettes([red, green], [blue, blue], 1)).toEqual([blue, blue]);
+  });
+
+  it("stretches the shorter palette over the longer one", () => {
+    const mixed = mixPalettes([red], [red, green, blue], 0);
+
+    expect(mixed).toEqual([red, red, red]);
+  });
+
+  it("returns the other palette when one is empty", () => {
+    expect(mixPalettes([], [red], 0.5)).toEqual([red]);
+    expect(mixPalettes([blue], [], 0.5)).toEqual([blue]);
+  });
+});
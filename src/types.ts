@@ -9,6 +9,7 @@ export interface WebGLContext {
         formatR: { internalFormat: number; format: number } | null;
         halfFloatTexType: number;
         supportLinearFiltering: boolean;
+        isWebGL2: boolean;
     };
 }
 
@@ -27,6 +28,53 @@ export interface RGBColor {
     b: number;
 }
 
+export interface RGBAColor extends RGBColor {
+    a: number;
+}
+
+/**
+ * Color state owned by one renderer: the active scheme, the colors handed
+ * out to splats and the position in that sequence
+ */
+export interface ColorContext {
+    scheme: ColorConfiguration;
+    colors: RGBColor[];
+    index: number;                      // next stop in 'stops' mode
+    sampling: ColorSamplingMode;
+    interpolation: ColorInterpolation;
+    step: number;                       // gradient fraction between 'sequential' and 'ping-pong' picks
+    period: number;                     // seconds per pass through the gradient in 'time' mode
+    position: number;                   // 0 to 1 along the gradient
+    direction: 1 | -1;                  // 'ping-pong' travel direction
+    time: number;                       // simulated seconds, kept current by the renderer
+    random: () => number;
+}
+
+/**
+ * How splat colors are picked from the gradient: 'stops' steps through the
+ * gradient stops, the other modes sample anywhere between them
+ */
+export type ColorSamplingMode = 'stops' | 'sequential' | 'random' | 'ping-pong' | 'time';
+
+/**
+ * Space the gradient is interpolated in; 'oklch' blends hue around the color wheel
+ */
+export type ColorInterpolation = 'oklab' | 'oklch';
+
+/**
+ * How emitter splats are colored: 'fixed' keeps one color per emitter (or
+ * drifts it with EMITTER_COLOR_DRIFT), 'speed', 'radial', 'angular', 'index'
+ * and 'time' pick the gradient position per splat, and 'intensity' remaps
+ * dye brightness through the gradient when displaying
+ */
+export type ColorMode = 'fixed' | 'speed' | 'radial' | 'angular' | 'index' | 'time' | 'intensity';
+
+export interface OklabColor {
+    l: number;
+    a: number;
+    b: number;
+}
+
 export interface HSLAColor {
     h: number; // 0-360
     s: number; // 0-100
@@ -34,6 +82,16 @@ export interface HSLAColor {
     a: number; // 0-1
 }
 
+/**
+ * 1D lookup texture sampled with `vec2(t, 0.5)`
+ */
+export interface GradientTexture {
+    texture: WebGLTexture | null;
+    width: number;
+    height: number;
+    attach: (id: number) => number;
+}
+
 // Framebuffer Types
 export interface BaseFBO {
     texture: WebGLTexture;
@@ -93,14 +151,71 @@ export interface PhysicsConfig {
     CURL: number;
     VELOCITY_DISSIPATION: number;
     DENSITY_DISSIPATION: number;
+    OBSTACLE_BOUNDARY: ObstacleBoundary;
+    BOUNDARY_MODE: BoundaryMode;
+    BUOYANCY: number;
+    AMBIENT_TEMPERATURE: number;
+    GRAVITY: { x: number; y: number };
+    PRESSURE_SOLVER: PressureSolver;
+    MULTIGRID_CYCLES: number;
+    VISCOSITY: number;
+    DIFFUSION_ITERATIONS: number;
+}
+
+/**
+ * 'jacobi' runs PRESSURE_ITERATIONS passes at full resolution, 'multigrid'
+ * runs MULTIGRID_CYCLES V-cycles over a pyramid of coarser grids
+ */
+export type PressureSolver = 'jacobi' | 'multigrid';
+
+export interface MultigridLevel {
+    pressure: DoubleFBO;  // correction solved at this level
+    rhs: BaseFBO;         // restricted residual of the finer level
+    residual: BaseFBO;
 }
 
+export interface MultigridPrograms {
+    residual: {
+        bind: () => void;
+        uniforms: {
+            uPressure: WebGLUniformLocation;
+            uDivergence: WebGLUniformLocation;
+            uObstacles: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
+            texelSize: WebGLUniformLocation;
+        };
+    };
+    restrict: {
+        bind: () => void;
+        uniforms: {
+            uTexture: WebGLUniformLocation;
+            texelSize: WebGLUniformLocation;
+        };
+    };
+    prolong: {
+        bind: () => void;
+        uniforms: {
+            uPressure: WebGLUniformLocation;
+            uCorrection: WebGLUniformLocation;
+        };
+    };
+}
+
+/**
+ * Behavior at the edges of the simulation domain: closed walls, periodic
+ * wrapping onto the opposite edge, or open borders the flow can leave through
+ */
+export type BoundaryMode = 'walls' | 'periodic' | 'open';
+
 export interface PhysicsPrograms {
     pressure: {
         bind: () => void;
         uniforms: {
             uPressure: WebGLUniformLocation;
             uDivergence: WebGLUniformLocation;
+            uObstacles: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
+            weight: WebGLUniformLocation;
             texelSize: WebGLUniformLocation;
         };
     };
@@ -108,6 +223,8 @@ export interface PhysicsPrograms {
         bind: () => void;
         uniforms: {
             uVelocity: WebGLUniformLocation;
+            uObstacles: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
             texelSize: WebGLUniformLocation;
         };
     };
@@ -116,6 +233,7 @@ export interface PhysicsPrograms {
         uniforms: {
             uVelocity: WebGLUniformLocation;
             texelSize: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
         };
     };
     vorticity: {
@@ -126,6 +244,29 @@ export interface PhysicsPrograms {
             curl: WebGLUniformLocation;
             dt: WebGLUniformLocation;
             texelSize: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
+        };
+    };
+    buoyancy: {
+        bind: () => void;
+        uniforms: {
+            uVelocity: WebGLUniformLocation;
+            uTemperature: WebGLUniformLocation;
+            gravity: WebGLUniformLocation;
+            buoyancy: WebGLUniformLocation;
+            ambient: WebGLUniformLocation;
+            dt: WebGLUniformLocation;
+        };
+    };
+    diffusion: {
+        bind: () => void;
+        uniforms: {
+            uTexture: WebGLUniformLocation;
+            uSource: WebGLUniformLocation;
+            uObstacles: WebGLUniformLocation;
+            alpha: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
+            texelSize: WebGLUniformLocation;
         };
     };
     gradientSubtract: {
@@ -133,11 +274,44 @@ export interface PhysicsPrograms {
         uniforms: {
             uPressure: WebGLUniformLocation;
             uVelocity: WebGLUniformLocation;
+            uObstacles: WebGLUniformLocation;
+            noSlip: WebGLUniformLocation;
+            boundaryMode: WebGLUniformLocation;
             texelSize: WebGLUniformLocation;
         };
     };
 }
 
+// Obstacle Types
+export interface ObstacleRect {
+    x: number;      // CSS pixels from the left edge of the canvas
+    y: number;      // CSS pixels from the top edge of the canvas
+    width: number;
+    height: number;
+}
+
+/**
+ * Solid geometry the fluid flows around. Opaque pixels of images and SVGs
+ * are solid; both are stretched to cover the canvas.
+ */
+export type ObstacleSource =
+    | { type: 'image'; image: CanvasImageSource }
+    | { type: 'svg'; svg: string }  // SVG markup or URL
+    | { type: 'rects'; rects: ObstacleRect[] };
+
+/**
+ * How velocity behaves next to obstacles: 'no-slip' stops the flow entirely,
+ * 'free-slip' only removes the component pointing into the obstacle
+ */
+export type ObstacleBoundary = 'no-slip' | 'free-slip';
+
+export interface ObstacleTexture {
+    texture: WebGLTexture | null;
+    width: number;
+    height: number;
+    attach: (id: number) => number;
+}
+
 // Splat Types
 export interface SplatConfig {
     SPLAT_FORCE: number;
@@ -171,6 +345,104 @@ export interface Pointer {
     color: RGBColor;
 }
 
+// Motion Source Types
+export interface MotionState {
+    x: number;   // position relative to the canvas center, roughly -0.5 to 0.5
+    y: number;
+    dx: number;  // velocity in the same units per second
+    dy: number;
+}
+
+/**
+ * Automatic emitter that drives a splat pointer. `update` advances the
+ * source by `dt` seconds and returns its new position and velocity.
+ */
+export interface MotionSource {
+    update: (dt: number) => MotionState;
+    reset: () => void;
+    /**
+     * Adopt the parameters of a freshly created source of the same class
+     * while keeping the current motion, so config changes don't jump
+     */
+    retune?(next: MotionSource): void;
+}
+
+export type MotionSourceParams = Record<string, number>;
+
+/**
+ * Config entry describing a group of motion sources created from a
+ * registered factory, e.g. `{ type: 'duffing', count: 4 }`
+ */
+export interface MotionSourceConfig {
+    type: string;
+    count?: number;             // defaults to 1
+    params?: MotionSourceParams;
+}
+
+/**
+ * Which sources drive splats: the configured motion sources ('oscillators'),
+ * user pointers (mouse, touch and pen), or both
+ */
+export type InputMode = 'oscillators' | 'user' | 'both';
+
+// Timing Types
+
+/**
+ * Returns the current time in milliseconds, like performance.now()
+ */
+export type TimeSource = () => number;
+
+/**
+ * Runtime hooks that cannot be expressed in a serializable Config
+ */
+export interface RendererOptions {
+    timeSource?: TimeSource;    // drives the fixed-step clock, e.g. a video capture clock
+    onContextLost?: () => void;       // the loop stops until the context is restored
+    onContextRestored?: () => void;   // GPU resources were rebuilt, simulation starts empty
+    strictConfig?: boolean;     // throw on invalid config values instead of clamping them
+}
+
+// Frame Scheduling Types
+export type FramePhase = 'inputs' | 'emitters' | 'simulation' | 'post' | 'present';
+
+export interface FrameContext {
+    phase: FramePhase;
+    frame: number;  // frames since the renderer started
+    time: number;   // simulated seconds
+    dt: number;     // solver step size in seconds
+}
+
+export type FrameHook = (context: FrameContext) => void;
+
+// Transition Types
+
+/**
+ * Named easing curve or a function mapping progress in [0, 1] to [0, 1]
+ */
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | ((t: number) => number);
+
+export interface TransitionOptions {
+    duration?: number;  // milliseconds of simulated time, 0 applies the config at once
+    easing?: Easing;
+}
+
+/**
+ * State of a running transition, from the config and palette it started
+ * with to its target
+ */
+export interface ConfigTransition {
+    from: Config;
+    to: Config;
+    start: number;      // simulated seconds
+    duration: number;   // simulated seconds
+    easing: (t: number) => number;
+    blendColors: boolean;
+    fromPalette: RGBColor[];
+    toPalette: RGBColor[];
+    fromSourceColors: RGBColor[];
+    resolve: () => void;
+}
+
 // Sunrays Types
 export interface SunraysConfig {
     resolution: number;
@@ -208,6 +480,12 @@ export interface Config {
     VELOCITY_DISSIPATION: number;
     PRESSURE: number;
     PRESSURE_ITERATIONS: number;
+    PRESSURE_SOLVER: PressureSolver;
+    MULTIGRID_CYCLES: number;
+    ADVECTION_SCHEME: AdvectionScheme;
+    VISCOSITY: number;              // velocity diffusion rate in texels squared per second
+    DYE_DIFFUSION: number;          // dye diffusion rate in texels squared per second
+    DIFFUSION_ITERATIONS: number;
     CURL: number;
     SPLAT_RADIUS: number;
     SPLAT_FORCE: number;
@@ -220,6 +498,39 @@ export interface Config {
     SUNRAYS_RESOLUTION: number;
     SUNRAYS_WEIGHT: number;
     COLOR_SCHEME: ColorConfiguration;
+    COLOR_SAMPLING: ColorSamplingMode;
+    COLOR_INTERPOLATION: ColorInterpolation;
+    COLOR_SAMPLING_STEP: number;    // gradient fraction between sequential picks
+    COLOR_CYCLE_PERIOD: number;     // seconds per pass through the gradient in 'time' mode
+    EMITTER_COLOR_DRIFT: number;    // gradient fraction per second emitter colors travel, 0 keeps them fixed
+    COLOR_MODE: ColorMode;
+    COLOR_SPEED_RANGE: number;      // emitter speed in canvas sizes per second at the end of the gradient
+    INPUT_MODE: InputMode;
+    OBSTACLE_BOUNDARY: ObstacleBoundary;
+    BOUNDARY_MODE: BoundaryMode;
+    SHOW_OBSTACLES: boolean;
+    OBSTACLE_COLOR: RGBColor;
+    TEMPERATURE_ENABLED: boolean;
+    TEMPERATURE_DISSIPATION: number;
+    BUOYANCY: number;               // upward force per unit of temperature above ambient
+    AMBIENT_TEMPERATURE: number;
+    GRAVITY: { x: number; y: number };  // direction buoyancy pushes against
+    SPLAT_HEAT: number;             // temperature injected by each splat
+    TEMPERATURE_COLOR_SCHEME: ColorConfiguration;
+    TEMPERATURE_INTENSITY: number;  // 0 keeps temperature out of the display
+    FIXED_TIMESTEP: number;         // seconds simulated per fixed step
+    SUBSTEPS: number;               // solver steps per fixed step
+    MAX_STEPS_PER_FRAME: number;    // caps catch-up after slow frames
+    THROTTLE: boolean;              // slow down or pause while the canvas can't be seen
+    OFFSCREEN_FPS: number;          // frame rate while offscreen or hidden, 0 pauses
+    LOW_POWER: boolean;             // hint from the host, e.g. on battery
+    LOW_POWER_FPS: number;
+    REDUCED_MOTION: boolean | 'auto';  // 'auto' follows prefers-reduced-motion
+    REDUCED_MOTION_MODE: ReducedMotionMode;
+    REDUCED_MOTION_TIME_SCALE: number; // emitter and solver speed in 'slow' mode
+    DETERMINISTIC: boolean;         // seeded randomness; frame-locked unless a time source is injected
+    SEED: number;
+    MOTION_SOURCES?: MotionSourceConfig[];  // defaults to DUFFING.NUM_OSCILLATORS duffing sources
     DUFFING: {
         NUM_OSCILLATORS: number;
         DELTA: number;      // damping coefficient
@@ -228,6 +539,79 @@ export interface Config {
         GAMMA: number;      // forcing amplitude
         OMEGA: number;      // forcing frequency
     };
+    LORENZ: {
+        SIGMA: number;      // Prandtl number
+        RHO: number;        // Rayleigh number
+        BETA: number;       // geometric factor
+        SCALE: number;      // projection scale
+        SPEED: number;      // time multiplier
+    };
+    ROSSLER: {
+        A: number;
+        B: number;
+        C: number;
+        SCALE: number;      // projection scale
+        SPEED: number;      // time multiplier
+    };
+    CLIFFORD: {
+        A: number;
+        B: number;
+        C: number;
+        D: number;
+        SCALE: number;      // projection scale
+        SPEED: number;      // map iterations per second
+    };
+    DE_JONG: {
+        A: number;
+        B: number;
+        C: number;
+        D: number;
+        SCALE: number;      // projection scale
+        SPEED: number;      // map iterations per second
+    };
+}
+
+// Config Schema Types
+
+/**
+ * Runtime description of one config value: its type, default and valid range
+ */
+export type ConfigFieldSchema =
+    | { type: 'number'; default: number; min: number; max: number; integer?: boolean; description: string }
+    | { type: 'boolean'; default: boolean; description: string }
+    | { type: 'enum'; default: unknown; values: readonly unknown[]; description: string }
+    | { type: 'object'; fields: Record<string, ConfigFieldSchema>; description: string }
+    | { type: 'list'; optional: true; validateItem: (item: unknown) => string | null; description: string }
+    | { type: 'custom'; default: unknown; validate: (value: unknown) => string | null; description: string };
+
+export type ConfigSchema = { [K in keyof Config]-?: ConfigFieldSchema };
+
+export interface ConfigIssue {
+    path: string;       // config key, nested keys joined with dots, e.g. "DUFFING.NUM_OSCILLATORS"
+    message: string;
+}
+
+export interface ConfigValidationOptions {
+    strict?: boolean;   // throw listing every issue instead of clamping
+    warn?: boolean;     // log each issue with console.warn, defaults to true
+    base?: Partial<Config>;  // values partial nested blocks are merged over, defaults to DEFAULT_CONFIG
+}
+
+export interface ConfigValidationResult {
+    config: Partial<Config>;    // input with invalid values clamped or replaced by defaults
+    issues: ConfigIssue[];
+}
+
+// Preset Types
+
+/**
+ * JSON form of a saved look. `version` is bumped whenever keys are renamed
+ * or change meaning, so older exports can be migrated on import.
+ */
+export interface SerializedConfig {
+    version: number;
+    name?: string;
+    config: Config;
 }
 
 export  interface WebGL2Constants {
@@ -249,6 +633,7 @@ export interface WebGLContext {
       formatR: { internalFormat: number; format: number } | null;
       halfFloatTexType: number;
       supportLinearFiltering: boolean;
+      isWebGL2: boolean;
   };
 }
 
@@ -334,6 +719,8 @@ export interface AdvectionProgram {
     uniforms: {
         uVelocity: WebGLUniformLocation;
         uSource: WebGLUniformLocation;
+        uObstacles: WebGLUniformLocation;
+        boundaryMode: WebGLUniformLocation;
         texelSize: WebGLUniformLocation;
         dyeTexelSize: WebGLUniformLocation;
         dt: WebGLUniformLocation;
@@ -341,6 +728,30 @@ export interface AdvectionProgram {
     };
 }
 
+/**
+ * Interface for the MacCormack and BFECC correction programs
+ */
+export interface AdvectionCorrectionProgram {
+    bind: () => void;
+    uniforms: {
+        uVelocity: WebGLUniformLocation;
+        uSource: WebGLUniformLocation;
+        uBackward: WebGLUniformLocation;
+        uObstacles: WebGLUniformLocation;
+        boundaryMode: WebGLUniformLocation;
+        texelSize: WebGLUniformLocation;
+        sourceTexelSize: WebGLUniformLocation;
+        dt: WebGLUniformLocation;
+        dissipation: WebGLUniformLocation;
+    };
+}
+
+/**
+ * 'semi-lagrangian' is a single backtrace; 'maccormack' and 'bfecc' add a
+ * backward pass to estimate and remove the error, keeping detail sharper
+ */
+export type AdvectionScheme = 'semi-lagrangian' | 'maccormack' | 'bfecc';
+
 /**
  * Interface for Color Program
  */
@@ -351,6 +762,24 @@ export interface ColorProgram {
     };
 }
 
+/**
+ * Interface for the reduced motion gradient program
+ */
+export interface GradientProgram {
+    bind: () => void;
+    uniforms: {
+        topColor: WebGLUniformLocation;
+        bottomColor: WebGLUniformLocation;
+    };
+}
+
+/**
+ * What to show when reduced motion is on: a single rendered frame
+ * ('static'), the simulation slowed down ('slow'), or a gradient of the
+ * color scheme that slowly cross-fades ('gradient')
+ */
+export type ReducedMotionMode = 'static' | 'slow' | 'gradient';
+
 /**
  * Interface for Blur Program
  */
@@ -391,6 +820,7 @@ export interface SplatData {
     deltaX: number;
     deltaY: number;
     color: RGBColor;
+    pressure?: number;  // scales SPLAT_FORCE and SPLAT_RADIUS, defaults to 1
 }
 
 export interface PointerData {
@@ -404,4 +834,5 @@ export interface PointerData {
     down: boolean;
     moved: boolean;
     color: RGBColor;
+    pressure: number;
 }
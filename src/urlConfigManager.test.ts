@@ -0,0 +1,154 @@
+import { registerColorScheme } from "./colorManager";
+import { DEFAULT_CONFIG } from "./configSchema";
+import { CONFIG_FORMAT_VERSION } from "./presetRegistry";
+import {
+  decodeConfig,
+  encodeConfig,
+  observeConfigInUrl,
+  readConfigFromUrl,
+  URL_CONFIG_PARAM,
+  writeConfigToUrl,
+} from "./urlConfigManager";
+import type { ColorConfiguration } from "./colorConfigurations";
+import { TextDecoder, TextEncoder } from "util";
+
+// jsdom leaves out the encoding API browsers provide
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+const encodeRaw = (version: number, data: unknown) =>
+  `${version}.${btoa(JSON.stringify(data))}`;
+
+describe("encodeConfig and decodeConfig", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("round-trips the keys that differ from the defaults", () => {
+    const config = {
+      ...DEFAULT_CONFIG,
+      CURL: 3,
+      GRAVITY: { x: 0.5, y: -1 },
+      COLOR_SCHEME: "fire" as const,
+    };
+    const encoded = encodeConfig(config);
+
+    expect(encoded.startsWith(`${CONFIG_FORMAT_VERSION}.`)).toBe(true);
+    expect(decodeConfig(encoded)).toEqual({
+      CURL: 3,
+      GRAVITY: { x: 0.5, y: -1 },
+      COLOR_SCHEME: "fire",
+    });
+  });
+
+  it("encodes the defaults as an empty config", () => {
+    expect(decodeConfig(encodeConfig(DEFAULT_CONFIG))).toEqual({});
+    expect(encodeConfig(DEFAULT_CONFIG)).toBe(encodeConfig({}));
+  });
+
+  it("uses only URL-safe characters", () => {
+    const encoded = encodeConfig({
+      COLOR_SCHEME: { gradient: ["oklch(70% 0.1 200)", "#ffffff"] },
+      BACK_COLOR: { r: 0.123456, g: 0.654321, b: 0.999 },
+    });
+
+    expect(encoded).toMatch(/^[0-9]+\.[A-Za-z0-9_-]+$/);
+  });
+
+  it("inlines color schemes registered at runtime", () => {
+    const gradient = ["#aa0000", "#00aa00"];
+    registerColorScheme("test-url", { gradient });
+    const encoded = encodeConfig({
+      COLOR_SCHEME: "test-url" as ColorConfiguration,
+    });
+
+    expect(decodeConfig(encoded).COLOR_SCHEME).toEqual({ gradient });
+  });
+
+  it("validates the decoded config", () => {
+    expect(
+      decodeConfig(encodeRaw(CONFIG_FORMAT_VERSION, { CURL: -1 }))
+    ).toEqual({ CURL: 0 });
+    expect(() =>
+      decodeConfig(encodeRaw(CONFIG_FORMAT_VERSION, { CURL: -1 }), {
+        strict: true,
+      })
+    ).toThrow(/CURL/);
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => decodeConfig("no-version")).toThrow(/<version>\.<data>/);
+    expect(() => decodeConfig("x.e30")).toThrow(/<version>\.<data>/);
+    expect(() => decodeConfig(encodeRaw(CONFIG_FORMAT_VERSION, [1]))).toThrow(
+      /expected an object/
+    );
+    expect(() => decodeConfig(`${CONFIG_FORMAT_VERSION}.!!!`)).toThrow();
+  });
+
+  it("rejects newer and unknown older versions", () => {
+    expect(() =>
+      decodeConfig(encodeRaw(CONFIG_FORMAT_VERSION + 1, {}))
+    ).toThrow(/newer than the supported version/);
+    expect(() => decodeConfig(encodeRaw(0, {}))).toThrow(/not supported/);
+  });
+});
+
+describe("URL hash", () => {
+  beforeEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("writes the config next to other hash parameters and reads it back", () => {
+    window.history.replaceState(null, "", "/page#tab=2");
+    writeConfigToUrl({ ...DEFAULT_CONFIG, CURL: 4 });
+
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    expect(params.get("tab")).toBe("2");
+    expect(params.get(URL_CONFIG_PARAM)).not.toBeNull();
+    expect(readConfigFromUrl()).toEqual({ CURL: 4 });
+  });
+
+  it("removes the parameter when the config matches the defaults", () => {
+    writeConfigToUrl({ ...DEFAULT_CONFIG, CURL: 4 });
+    writeConfigToUrl(DEFAULT_CONFIG);
+
+    expect(window.location.hash).toBe("");
+    expect(readConfigFromUrl()).toBeNull();
+  });
+
+  it("ignores a config that cannot be decoded", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    window.history.replaceState(null, "", `/#${URL_CONFIG_PARAM}=garbage`);
+
+    expect(readConfigFromUrl()).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports configs shared by later hash changes", () => {
+    const onChange = jest.fn();
+    const stop = observeConfigInUrl(onChange);
+
+    window.history.replaceState(
+      null,
+      "",
+      `/#${URL_CONFIG_PARAM}=${encodeConfig({ CURL: 6 })}`
+    );
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    expect(onChange).toHaveBeenCalledWith({ CURL: 6 });
+
+    window.history.replaceState(null, "", "/#other=1");
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    stop();
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,117 @@
+// Shareable URL config utilities using functional programming
+import { DEFAULT_CONFIG, validateConfig } from './configSchema';
+import { CONFIG_FORMAT_VERSION, inlineColorSchemes, migrateConfig } from './presetRegistry';
+import { Config, ConfigValidationOptions } from './types';
+
+/**
+ * Hash parameter holding the encoded config, e.g. `#fluid=1.eyJDVVJMIjozfQ`
+ */
+export const URL_CONFIG_PARAM = 'fluid';
+
+const toBase64Url = (text: string): string => {
+    const bytes = new TextEncoder().encode(text);
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+/**
+ * Encode the keys of a config that differ from the defaults as
+ * `<version>.<base64url JSON>`. Nested blocks such as DUFFING are kept whole
+ * and color schemes registered at runtime are stored as their gradients.
+ * @param config - Full or partial config
+ */
+export const encodeConfig = (config: Partial<Config>): string => {
+    const delta = Object.fromEntries(
+        Object.entries(inlineColorSchemes(config)).filter(
+            ([key, value]) => JSON.stringify(value) !== JSON.stringify(DEFAULT_CONFIG[key as keyof Config])
+        )
+    );
+    return `${CONFIG_FORMAT_VERSION}.${toBase64Url(JSON.stringify(delta))}`;
+};
+
+/**
+ * Decode a string written by encodeConfig and validate it
+ * @param encoded - Encoded config
+ * @param options - Validation options, `strict` throws on invalid values
+ * @returns The keys that differ from the defaults
+ */
+export const decodeConfig = (encoded: string, options?: ConfigValidationOptions): Partial<Config> => {
+    const separator = encoded.indexOf('.');
+    const version = Number(encoded.slice(0, separator));
+    if (separator < 0 || !Number.isInteger(version)) {
+        throw new Error('Invalid encoded config: expected "<version>.<data>"');
+    }
+
+    const delta = JSON.parse(fromBase64Url(encoded.slice(separator + 1)));
+    if (typeof delta !== 'object' || delta === null || Array.isArray(delta)) {
+        throw new Error('Invalid encoded config: expected an object');
+    }
+    return validateConfig(migrateConfig(version, delta) as Partial<Config>, options).config;
+};
+
+/**
+ * Read the config shared in `location.hash`
+ * @param param - Hash parameter holding the config
+ * @returns The shared config, or null when the hash has none or it cannot be decoded
+ */
+export const readConfigFromUrl = (param: string = URL_CONFIG_PARAM): Partial<Config> | null => {
+    if (typeof window === 'undefined') return null;
+
+    const encoded = new URLSearchParams(window.location.hash.slice(1)).get(param);
+    if (!encoded) return null;
+    try {
+        return decodeConfig(encoded);
+    } catch (error) {
+        console.warn(`Ignoring the config in the URL: ${error instanceof Error ? error.message : error}`);
+        return null;
+    }
+};
+
+/**
+ * Follow configs shared in the hash while the page stays open, e.g. when a
+ * second link is pasted into the address bar
+ * @param onChange - Called with each newly shared config
+ * @param param - Hash parameter holding the config
+ * @returns Function removing the listener
+ */
+export const observeConfigInUrl = (
+    onChange: (config: Partial<Config>) => void,
+    param: string = URL_CONFIG_PARAM
+): (() => void) => {
+    if (typeof window === 'undefined') return () => {};
+
+    const handleHashChange = () => {
+        const config = readConfigFromUrl(param);
+        if (config) onChange(config);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+};
+
+/**
+ * Write a config into `location.hash`, keeping other hash parameters. The
+ * history entry is replaced so tweaking parameters does not flood it.
+ * @param config - Config to share, usually the full current config
+ * @param param - Hash parameter holding the config
+ */
+export const writeConfigToUrl = (config: Partial<Config>, param: string = URL_CONFIG_PARAM): void => {
+    if (typeof window === 'undefined') return;
+
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const encoded = encodeConfig(config);
+    // An empty delta encodes "{}" and needs no parameter at all
+    if (encoded === encodeConfig({})) {
+        params.delete(param);
+    } else {
+        params.set(param, encoded);
+    }
+
+    const hash = params.toString();
+    const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+    window.history.replaceState(window.history.state, '', url);
+};
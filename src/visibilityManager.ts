@@ -0,0 +1,43 @@
+// Visibility tracking utilities using functional programming
+
+/**
+ * Watch whether the canvas can be seen: the document must be visible and
+ * the canvas must intersect the viewport
+ * @param canvas - Canvas to observe
+ * @param onChange - Called with the new visibility whenever it changes
+ * @returns Function removing the observers
+ */
+export const observeVisibility = (
+    canvas: HTMLCanvasElement,
+    onChange: (visible: boolean) => void
+): (() => void) => {
+    let intersecting = true;
+    let visible = true;
+
+    const update = () => {
+        const next = intersecting && document.visibilityState !== 'hidden';
+        if (next !== visible) {
+            visible = next;
+            onChange(visible);
+        }
+    };
+
+    const handleVisibilityChange = () => update();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // Older browsers without IntersectionObserver only get the document check
+    const observer = typeof IntersectionObserver !== 'undefined'
+        ? new IntersectionObserver((entries) => {
+            intersecting = entries[entries.length - 1].isIntersecting;
+            update();
+        })
+        : null;
+    observer?.observe(canvas);
+
+    update();
+
+    return () => {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        observer?.disconnect();
+    };
+};